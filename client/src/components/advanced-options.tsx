@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight, RotateCcw, SlidersHorizontal } from "lucide-react";
+import type { GenerateRequest, ModelsResponse } from "@shared/schema";
+
+// Everything a generate request can set besides the prompt; unset fields use the server defaults
+export type AdvancedSettings = Omit<GenerateRequest, 'prompt'>;
+
+// Select value standing for "not set" (Radix selects can't use an empty string)
+const UNSET = 'default';
+
+interface AdvancedOptionsProps {
+  options: ModelsResponse;
+  value: AdvancedSettings;
+  disabled?: boolean;
+  onChange: (value: AdvancedSettings) => void;
+}
+
+export function AdvancedOptions({
+  options,
+  value,
+  disabled,
+  onChange
+}: AdvancedOptionsProps) {
+  const [open, setOpen] = useState(false);
+  const isCustomized = Object.values(value).some(v => v !== undefined);
+
+  const update = (changes: Partial<AdvancedSettings>) => onChange({ ...value, ...changes });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center justify-between">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+            {open ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+            <SlidersHorizontal className="w-3 h-3 mr-1" />
+            Advanced{isCustomized && ' (customized)'}
+          </Button>
+        </CollapsibleTrigger>
+        {isCustomized && (
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange({})} disabled={disabled}>
+            <RotateCcw className="w-3 h-3 mr-1" /> Reset
+          </Button>
+        )}
+      </div>
+
+      <CollapsibleContent className="flex flex-col gap-3 pt-2">
+        <div className="flex flex-col gap-1.5">
+          <Label className="text-xs">Model</Label>
+          <Select
+            value={value.model ?? UNSET}
+            onValueChange={(model) => update({ model: model === UNSET ? undefined : model })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>
+                {options.models.length > 1 ? `Automatic (${options.default} first)` : options.default}
+              </SelectItem>
+              {options.models.length > 1 && options.models.map(model => (
+                <SelectItem key={model} value={model}>{model}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <Label className="text-xs">Style preset</Label>
+          <Select
+            value={value.stylePreset ?? UNSET}
+            onValueChange={(stylePreset) => update({ stylePreset: stylePreset === UNSET ? undefined : stylePreset })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>None</SelectItem>
+              {options.stylePresets.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Temperature</Label>
+            <span className="text-xs text-muted-foreground">
+              {value.temperature !== undefined ? value.temperature.toFixed(1) : 'Model default'}
+            </span>
+          </div>
+          <Slider
+            min={options.temperature.min}
+            max={options.temperature.max}
+            step={0.1}
+            value={[value.temperature ?? 1]}
+            onValueChange={([temperature]) => update({ temperature })}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <Label className="text-xs" htmlFor="advanced-max-tokens">Max tokens</Label>
+          <Input
+            id="advanced-max-tokens"
+            type="number"
+            className="h-8 text-xs"
+            min={options.maxTokens.min}
+            max={options.maxTokens.max}
+            step={500}
+            placeholder={String(options.maxTokens.default)}
+            value={value.maxTokens ?? ''}
+            onChange={(e) => update({ maxTokens: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+            disabled={disabled}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
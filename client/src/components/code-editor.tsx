@@ -1,22 +1,166 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { basicSetup } from "codemirror";
+import { Annotation, Compartment, EditorState, type Extension, type Text } from "@codemirror/state";
+import { EditorView, keymap } from "@codemirror/view";
+import { indentWithTab } from "@codemirror/commands";
+import { openSearchPanel } from "@codemirror/search";
+import { lintGutter, openLintPanel, setDiagnostics, type Diagnostic as LintDiagnostic } from "@codemirror/lint";
+import { html } from "@codemirror/lang-html";
+import { css } from "@codemirror/lang-css";
+import { javascript } from "@codemirror/lang-javascript";
+import { oneDark } from "@codemirror/theme-one-dark";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
-import { Copy, Check, FileCode } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Copy, Check, FileCode, Search, WandSparkles, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { ProjectFile } from "@shared/schema";
+import { formatCode, getFormatOptions, setFormatOptions, INDENT_WIDTHS, type FormatOptions } from "@/lib/formatter";
+import type { Diagnostic, ProjectFile } from "@shared/schema";
 
 interface CodeEditorProps {
   activeFile: ProjectFile | null;
+  // Problems the server found in the active file
+  diagnostics?: Diagnostic[];
   onContentChange: (newContent: string) => void;
 }
 
+// Marks transactions that sync the editor to activeFile, so they aren't reported back as edits
+const externalChange = Annotation.define<boolean>();
+
+const LANGUAGES: Record<ProjectFile['type'], () => Extension> = {
+  html: () => html(),
+  css: () => css(),
+  js: () => javascript(),
+};
+
+const baseTheme = EditorView.theme({
+  "&": { height: "100%", fontSize: "0.875rem" },
+  "&.cm-focused": { outline: "none" },
+  ".cm-scroller": { fontFamily: "var(--font-mono)", lineHeight: "1.6" },
+});
+
+// Diagnostics count lines and columns from 1; clamp them in case the file changed since it was validated
+function toLintDiagnostics(doc: Text, diagnostics: Diagnostic[]): LintDiagnostic[] {
+  const offset = (line: number, column: number) => {
+    const target = doc.line(Math.min(Math.max(line, 1), doc.lines));
+    return Math.min(target.from + Math.max(column, 1) - 1, target.to);
+  };
+  return diagnostics.map(d => {
+    const from = offset(d.line, d.column);
+    return {
+      from,
+      to: d.endLine !== undefined ? Math.max(from, offset(d.endLine, d.endColumn ?? 1)) : from,
+      severity: d.severity,
+      source: d.rule,
+      message: d.message,
+    };
+  });
+}
+
+function isDarkMode() {
+  return document.documentElement.classList.contains("dark");
+}
+
+/**
+ * CodeMirror editor for the active project file. Each file keeps its own
+ * editor state (undo history, cursors, scroll) while the user switches
+ * between files; content changed from outside (streaming, restores) is
+ * synced in without being reported back through onContentChange.
+ */
 export function CodeEditor({
   activeFile,
+  diagnostics = [],
   onContentChange
 }: CodeEditorProps) {
   const [copied, setCopied] = useState(false);
+  const [formatOptions, setFormatOptionsState] = useState(getFormatOptions);
   const { toast } = useToast();
+  const container = useRef<HTMLDivElement>(null);
+  const view = useRef<EditorView | null>(null);
+  const states = useRef(new Map<string, EditorState>());
+  // Name of the file whose state the view holds
+  const shown = useRef<string | null>(null);
+  const theme = useRef(new Compartment());
+  const onChange = useRef(onContentChange);
+  onChange.current = onContentChange;
+
+  const createState = (file: ProjectFile) => EditorState.create({
+    doc: file.content,
+    extensions: [
+      basicSetup,
+      keymap.of([
+        indentWithTab,
+        // Edits autosave; keep the browser's "Save page" dialog away
+        { key: "Mod-s", run: () => true, preventDefault: true },
+      ]),
+      baseTheme,
+      lintGutter(),
+      LANGUAGES[file.type](),
+      theme.current.of(isDarkMode() ? oneDark : []),
+      EditorView.updateListener.of((update) => {
+        if (update.docChanged && !update.transactions.some(tr => tr.annotation(externalChange))) {
+          onChange.current(update.state.doc.toString());
+        }
+      }),
+    ],
+  });
+
+  // Mounted while a file is open; the view outlives file switches
+  const hasFile = activeFile !== null;
+  useEffect(() => {
+    if (!hasFile || !container.current) return;
+    view.current = new EditorView({ parent: container.current });
+
+    // Follow the app's light/dark toggle, which flips the "dark" class on <html>
+    const observer = new MutationObserver(() => {
+      view.current?.dispatch({ effects: theme.current.reconfigure(isDarkMode() ? oneDark : []) });
+    });
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ["class"] });
+
+    return () => {
+      observer.disconnect();
+      if (shown.current && view.current) states.current.set(shown.current, view.current.state);
+      view.current?.destroy();
+      view.current = null;
+      shown.current = null;
+    };
+  }, [hasFile]);
+
+  // Swap in the active file's state, or sync its content when it changed elsewhere
+  useEffect(() => {
+    const editor = view.current;
+    if (!editor || !activeFile) return;
+
+    if (shown.current !== activeFile.name) {
+      if (shown.current) states.current.set(shown.current, editor.state);
+      const cached = states.current.get(activeFile.name);
+      editor.setState(cached && cached.doc.toString() === activeFile.content ? cached : createState(activeFile));
+      // The theme may have changed while this state was cached
+      editor.dispatch({ effects: theme.current.reconfigure(isDarkMode() ? oneDark : []) });
+      shown.current = activeFile.name;
+    } else if (editor.state.doc.toString() !== activeFile.content) {
+      editor.dispatch({
+        changes: { from: 0, to: editor.state.doc.length, insert: activeFile.content },
+        annotations: externalChange.of(true),
+      });
+    }
+  }, [activeFile, hasFile]);
+
+  // Mark problems inline; runs after the file's state is in the view
+  useEffect(() => {
+    const editor = view.current;
+    if (!editor || !activeFile) return;
+    editor.dispatch(setDiagnostics(editor.state, toLintDiagnostics(editor.state.doc, diagnostics)));
+  }, [diagnostics, activeFile?.name, hasFile]);
 
   const handleCopy = () => {
     if (!activeFile) return;
@@ -30,6 +174,36 @@ export function CodeEditor({
     });
   };
 
+  const handleShowProblems = () => {
+    if (!view.current) return;
+    openLintPanel(view.current);
+  };
+
+  const handleFind = () => {
+    if (!view.current) return;
+    openSearchPanel(view.current);
+  };
+
+  // Reformat the open file as one undoable edit
+  const handleFormat = async () => {
+    const editor = view.current;
+    if (!editor || !activeFile) return;
+    const name = activeFile.name;
+    const before = editor.state.doc.toString();
+    const formatted = await formatCode(before, activeFile.type, formatOptions);
+    // Skip if the user typed or switched files while the formatter was loading
+    if (view.current !== editor || shown.current !== name || editor.state.doc.toString() !== before) return;
+    if (formatted !== before) {
+      editor.dispatch({ changes: { from: 0, to: editor.state.doc.length, insert: formatted } });
+    }
+  };
+
+  const updateFormatOptions = (changes: Partial<FormatOptions>) => {
+    const options = { ...formatOptions, ...changes };
+    setFormatOptions(options);
+    setFormatOptionsState(options);
+  };
+
   if (!activeFile) {
     return (
       <Card className="flex flex-col h-full items-center justify-center text-muted-foreground">
@@ -45,34 +219,81 @@ export function CodeEditor({
         <span className="text-xs font-mono text-muted-foreground">
           {activeFile.name}
         </span>
-        <Button
-          variant="ghost"
-          size="sm"
-          className="h-6 px-2 text-xs"
-          onClick={handleCopy}
-        >
-          {copied ? (
-            <>
-              <Check className="w-3 h-3 mr-1" />
-              Copied
-            </>
-          ) : (
-            <>
-              <Copy className="w-3 h-3 mr-1" />
-              Copy
-            </>
+        <div className="flex items-center gap-1">
+          {diagnostics.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-2 text-xs ${diagnostics.some(d => d.severity === 'error') ? 'text-destructive' : 'text-yellow-600 dark:text-yellow-500'}`}
+              onClick={handleShowProblems}
+              title="Show problems"
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {diagnostics.length} {diagnostics.length === 1 ? 'problem' : 'problems'}
+            </Button>
           )}
-        </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                <WandSparkles className="w-3 h-3 mr-1" />
+                Format
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onSelect={handleFormat}>Format {activeFile.name.split('/').pop()}</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Indent</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(formatOptions.indentWidth)}
+                onValueChange={(value) => updateFormatOptions({ indentWidth: Number(value) })}
+              >
+                {INDENT_WIDTHS.map(width => (
+                  <DropdownMenuRadioItem key={width} value={String(width)}>{width} spaces</DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Quotes</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={formatOptions.quoteStyle}
+                onValueChange={(value) => updateFormatOptions({ quoteStyle: value as FormatOptions['quoteStyle'] })}
+              >
+                <DropdownMenuRadioItem value="single">Single</DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="double">Double</DropdownMenuRadioItem>
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={handleFind}
+            title="Find and replace (Ctrl+F)"
+          >
+            <Search className="w-3 h-3 mr-1" />
+            Find
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={handleCopy}
+          >
+            {copied ? (
+              <>
+                <Check className="w-3 h-3 mr-1" />
+                Copied
+              </>
+            ) : (
+              <>
+                <Copy className="w-3 h-3 mr-1" />
+                Copy
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
       <div className="flex-1 p-0 overflow-hidden relative">
-        <Textarea
-          value={activeFile.content}
-          onChange={(e) => onContentChange(e.target.value)}
-          className="absolute inset-0 w-full h-full resize-none font-mono text-sm leading-relaxed border-0 rounded-none focus-visible:ring-0 p-4"
-          placeholder="Start coding..."
-          spellCheck={false}
-        />
+        <div ref={container} className="absolute inset-0" />
       </div>
     </Card>
   );
@@ -0,0 +1,38 @@
+import type { ReactNode } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Code2, Rocket } from "lucide-react";
+
+interface DownloadMenuProps {
+  // The button that opens the menu
+  children: ReactNode;
+  onDownload: (minify: boolean) => void;
+}
+
+export function DownloadMenu({ children, onDownload }: DownloadMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem onSelect={() => onDownload(false)} className="flex-col items-start gap-0.5">
+          <span className="flex items-center font-medium">
+            <Code2 className="w-4 h-4 mr-2" />
+            Source code
+          </span>
+          <span className="text-xs text-muted-foreground">The readable project files</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onDownload(true)} className="flex-col items-start gap-0.5">
+          <span className="flex items-center font-medium">
+            <Rocket className="w-4 h-4 mr-2" />
+            Source + production build
+          </span>
+          <span className="text-xs text-muted-foreground">Adds a minified dist/ folder with hashed asset names</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
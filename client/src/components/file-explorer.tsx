@@ -51,6 +51,11 @@ interface FileExplorerProps {
     onFileDelete: (fileName: string) => void;
 }
 
+// The server only saves paths it would accept from the generator (server/project-files.ts)
+const PATH_SEGMENT = /^[A-Za-z0-9_][A-Za-z0-9._-]*$/;
+const MAX_PATH_DEPTH = 4;
+const MAX_PATH_LENGTH = 128;
+
 type TreeNode = {
     name: string;
     path: string;
@@ -114,11 +119,17 @@ export function FileExplorer({
         if (!newFileName) return;
 
         let finalName = newFileName.trim();
-        // Auto-append extension if not present and it's not a hidden file (e.g. .keep)
-        if (!finalName.endsWith(`.${newFileType}`) && !finalName.endsWith('.keep')) {
+        // Auto-append extension if not present
+        if (!finalName.endsWith(`.${newFileType}`)) {
             finalName = `${finalName}.${newFileType}`;
         }
 
+        const segments = finalName.split('/');
+        if (finalName.length > MAX_PATH_LENGTH || segments.length > MAX_PATH_DEPTH || !segments.every(s => PATH_SEGMENT.test(s))) {
+            alert(`Use letters, numbers, '.', '_' and '-' only, with at most ${MAX_PATH_DEPTH - 1} folders.`);
+            return;
+        }
+
         // Check duplicate
         if (files.some(f => f.name === finalName)) {
             alert("File already exists!");
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { TAG_LIMITS, type Generation, type UpdateGenerationRequest } from "@shared/schema";
+
+interface GenerationDetailsDialogProps {
+  // The generation being edited; the dialog is open while set
+  generation: Generation | null;
+  isSaving: boolean;
+  onSave: (changes: UpdateGenerationRequest) => void;
+  onClose: () => void;
+}
+
+// Comma-separated input to tags, matching how the server normalizes them
+function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function GenerationDetailsDialog({
+  generation,
+  isSaving,
+  onSave,
+  onClose
+}: GenerationDetailsDialogProps) {
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+
+  useEffect(() => {
+    if (generation) {
+      setTitle(generation.title ?? '');
+      setTags(generation.tags.join(', '));
+    }
+  }, [generation]);
+
+  const parsedTags = parseTags(tags);
+  const tooManyTags = parsedTags.length > TAG_LIMITS.count;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tooManyTags || isSaving) return;
+    onSave({ title, tags: parsedTags });
+  };
+
+  return (
+    <Dialog open={!!generation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>Project details</DialogTitle>
+            <DialogDescription className="truncate">{generation?.prompt}</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="generation-title">Title</Label>
+            <Input
+              id="generation-title"
+              value={title}
+              maxLength={120}
+              placeholder="Defaults to the prompt"
+              onChange={(e) => setTitle(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="generation-tags">Tags</Label>
+            <Input
+              id="generation-tags"
+              value={tags}
+              placeholder="e.g. acme-corp, landing"
+              onChange={(e) => setTags(e.target.value)}
+            />
+            <p className={`text-xs ${tooManyTags ? 'text-destructive' : 'text-muted-foreground'}`}>
+              Separate tags with commas (up to {TAG_LIMITS.count}, {TAG_LIMITS.length} characters each).
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={isSaving || tooManyTags}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
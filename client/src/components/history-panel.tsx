@@ -0,0 +1,367 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Filter, History, Loader2, Pencil, Search, Star, Tags, Trash2, X } from "lucide-react";
+import { GenerationDetailsDialog } from "@/components/generation-details-dialog";
+import { toApiError } from "@/lib/queryClient";
+import { GENERATION_PAGE_SIZE, type Diagnostic, type Generation, type GenerationPage, type GenerationQuery, type UpdateGenerationRequest } from "@shared/schema";
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+type HistoryFilters = {
+  q: string;
+  // YYYY-MM-DD from the date inputs, in local time
+  from: string;
+  to: string;
+  tag: string;
+  sort: GenerationQuery['sort'];
+};
+
+const NO_FILTERS: HistoryFilters = { q: '', from: '', to: '', tag: '', sort: 'newest' };
+
+const UNTAGGED = 'Untagged';
+
+async function fetchGenerationPage(
+  filters: HistoryFilters,
+  cursor: string | null,
+  starred: boolean,
+  limit = GENERATION_PAGE_SIZE.default
+): Promise<GenerationPage> {
+  const params = new URLSearchParams({ sort: filters.sort, starred: String(starred), limit: String(limit) });
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.tag) params.set('tag', filters.tag);
+  // Whole days: from the start of `from` to the end of `to`
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (cursor) params.set('cursor', cursor);
+
+  const res = await fetch(`/api/generations?${params}`, { credentials: "include" });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw toApiError(body, "Failed to fetch generations");
+  }
+  return body as GenerationPage;
+}
+
+function truncatePrompt(text: string, maxLength = 60) {
+  if (text.length <= maxLength) return text;
+  return text.slice(0, maxLength) + "...";
+}
+
+// Tag name to generations, alphabetically with untagged ones last; a generation appears under each of its tags
+function groupByTag(generations: Generation[]): [string, Generation[]][] {
+  const groups = new Map<string, Generation[]>();
+  for (const generation of generations) {
+    for (const tag of generation.tags.length > 0 ? generation.tags : [UNTAGGED]) {
+      groups.set(tag, [...(groups.get(tag) ?? []), generation]);
+    }
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    a === UNTAGGED ? 1 : b === UNTAGGED ? -1 : a.localeCompare(b)
+  );
+}
+
+interface HistoryPanelProps {
+  activeId?: string;
+  onSelect: (generation: Generation) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  // Resolves once saved, so the details dialog can close
+  onUpdate: (id: string, changes: UpdateGenerationRequest) => Promise<unknown>;
+  isDuplicating?: boolean;
+}
+
+interface HistoryCardProps {
+  generation: Generation;
+  isActive: boolean;
+  isDuplicating?: boolean;
+  onSelect: () => void;
+  onStar: () => void;
+  onEdit: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onTagClick: (tag: string) => void;
+}
+
+// Errors in the generation's saved files, from the validation report stored with it
+function errorCount(generation: Generation): number {
+  try {
+    const diagnostics: Diagnostic[] = JSON.parse(generation.diagnostics || "[]");
+    return diagnostics.filter(d => d.severity === 'error').length;
+  } catch (e) {
+    return 0;
+  }
+}
+
+function HistoryCard({
+  generation: g,
+  isActive,
+  isDuplicating,
+  onSelect,
+  onStar,
+  onEdit,
+  onDuplicate,
+  onDelete,
+  onTagClick
+}: HistoryCardProps) {
+  // Keep clicks on the card's controls from also loading the generation
+  const action = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
+
+  const errors = errorCount(g);
+
+  return (
+    <Card className={`p-3 cursor-pointer hover:shadow-md ${isActive ? 'border-primary' : ''}`} onClick={onSelect}>
+      <div className="flex justify-between gap-2">
+        <div className="truncate text-sm font-medium" title={g.prompt}>{g.title || truncatePrompt(g.prompt)}</div>
+        <div className="flex shrink-0">
+          <Button variant="ghost" size="icon" className="h-6 w-6" title={g.starred ? "Unstar" : "Star"} onClick={action(onStar)}>
+            <Star className={`w-3 h-3 ${g.starred ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" title="Rename and tag" onClick={action(onEdit)}>
+            <Pencil className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" title="Duplicate" disabled={isDuplicating} onClick={action(onDuplicate)}>
+            <Copy className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={action(onDelete)}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground truncate">{format(new Date(g.createdAt), "MMM d, h:mm a")}{g.model && ` · ${g.model}`}{g.forkedFrom && ' · copy'}
+        {errors > 0 && <span className="text-destructive"> · {errors} {errors === 1 ? 'error' : 'errors'}</span>}
+      </div>
+      {g.tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {g.tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="h-5 px-1.5 text-[10px] font-normal cursor-pointer" onClick={action(() => onTagClick(tag))}>
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export function HistoryPanel({
+  activeId,
+  onSelect,
+  onDuplicate,
+  onDelete,
+  onUpdate,
+  isDuplicating
+}: HistoryPanelProps) {
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<HistoryFilters>(NO_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [groupTags, setGroupTags] = useState(false);
+  const [editing, setEditing] = useState<Generation | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(prev => ({ ...prev, q: search })), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Favorites are pinned above the paged list, which holds everything else
+  const { data: starred } = useQuery({
+    queryKey: ["/api/generations", filters, "starred"],
+    queryFn: () => fetchGenerationPage(filters, null, true, GENERATION_PAGE_SIZE.max),
+  });
+  const { data, isLoading, isError, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ["/api/generations", filters],
+    queryFn: ({ pageParam }) => fetchGenerationPage(filters, pageParam, false),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const pinned = starred?.items ?? [];
+  const generations = data?.pages.flatMap(page => page.items) ?? [];
+  const isFiltered = filters.q !== '' || filters.from !== '' || filters.to !== '' || filters.tag !== '';
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !hasNextPage) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const clearFilters = () => {
+    setSearch('');
+    setFilters(NO_FILTERS);
+  };
+
+  const handleSave = async (changes: UpdateGenerationRequest) => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      await onUpdate(editing.id, changes);
+      setEditing(null);
+    } catch (e) {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCard = (g: Generation, key = g.id) => (
+    <HistoryCard
+      key={key}
+      generation={g}
+      isActive={g.id === activeId}
+      isDuplicating={isDuplicating}
+      onSelect={() => onSelect(g)}
+      onStar={() => onUpdate(g.id, { starred: !g.starred }).catch(() => {})}
+      onEdit={() => setEditing(g)}
+      onDuplicate={() => onDuplicate(g.id)}
+      onDelete={() => onDelete(g.id)}
+      onTagClick={(tag) => setFilters(prev => ({ ...prev, tag }))}
+    />
+  );
+
+  const sectionLabel = (label: string) => (
+    <div className="px-1 pt-1 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">{label}</div>
+  );
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 overflow-hidden">
+      <div className="flex flex-col gap-2 px-3 py-3 border-b bg-background">
+        <div className="flex items-center gap-2 px-1">
+          <History className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium">History</span>
+          <Button
+            variant={groupTags ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-6 w-6 ml-auto"
+            title="Group by tag"
+            onClick={() => setGroupTags(!groupTags)}
+          >
+            <Tags className="w-3 h-3" />
+          </Button>
+          <Button
+            variant={showFilters ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-6 w-6"
+            title="Filters"
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            <Filter className="w-3 h-3" />
+          </Button>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts and code"
+            className="h-8 pl-7 text-xs"
+          />
+        </div>
+        {filters.tag && (
+          <div>
+            <Badge variant="outline" className="gap-1 text-xs font-normal">
+              Tag: {filters.tag}
+              <button onClick={() => setFilters(prev => ({ ...prev, tag: '' }))} aria-label="Clear tag filter">
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          </div>
+        )}
+        {showFilters && (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                aria-label="From date"
+                value={filters.from}
+                onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+                className="h-8 text-xs"
+              />
+              <span className="text-xs text-muted-foreground">to</span>
+              <Input
+                type="date"
+                aria-label="To date"
+                value={filters.to}
+                onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={filters.sort} onValueChange={(sort) => setFilters(prev => ({ ...prev, sort: sort as HistoryFilters['sort'] }))}>
+                <SelectTrigger className="h-8 text-xs flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                  <SelectItem value="oldest">Oldest first</SelectItem>
+                </SelectContent>
+              </Select>
+              {isFiltered && (
+                <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={clearFilters}>
+                  <X className="w-3 h-3 mr-1" /> Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="flex flex-col p-3 gap-2">
+          {isLoading ? (
+            [1, 2, 3].map(i => <Skeleton key={i} className="h-16" />)
+          ) : isError ? (
+            <p className="text-xs text-destructive text-center py-6">{error.message}</p>
+          ) : pinned.length === 0 && generations.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {isFiltered ? 'No generations match these filters.' : 'No generations yet.'}
+            </p>
+          ) : (
+            <>
+              {pinned.length > 0 && (
+                <>
+                  {sectionLabel('Starred')}
+                  {pinned.map(g => renderCard(g))}
+                  {generations.length > 0 && sectionLabel(groupTags ? 'By tag' : 'All')}
+                </>
+              )}
+              {groupTags
+                ? groupByTag(generations).map(([tag, group]) => (
+                  <div key={tag} className="flex flex-col gap-2">
+                    <div className="px-1 pt-1 text-xs font-medium">{tag} <span className="text-muted-foreground">({group.length})</span></div>
+                    {group.map(g => renderCard(g, `${tag}:${g.id}`))}
+                  </div>
+                ))
+                : generations.map(g => renderCard(g))}
+            </>
+          )}
+          <div ref={sentinel} />
+          {isFetchingNextPage && <Loader2 className="w-4 h-4 mx-auto animate-spin text-muted-foreground" />}
+        </div>
+      </ScrollArea>
+
+      <GenerationDetailsDialog
+        generation={editing}
+        isSaving={isSaving}
+        onSave={handleSave}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Send, Sparkles, Wand2 } from "lucide-react";
+import type { Generation } from "@shared/schema";
+
+interface RefinePanelProps {
+  // The current generation and its ancestors, oldest first
+  lineage: Generation[];
+  isPending: boolean;
+  onRefine: (instruction: string) => void;
+}
+
+export function RefinePanel({
+  lineage,
+  isPending,
+  onRefine
+}: RefinePanelProps) {
+  const [instruction, setInstruction] = useState("");
+
+  const handleSubmit = () => {
+    const text = instruction.trim();
+    if (text.length < 3 || isPending) return;
+    onRefine(text);
+    setInstruction("");
+  };
+
+  return (
+    <div className="flex flex-col border-t bg-background shrink-0">
+      <div className="flex items-center gap-2 px-4 py-2 border-b h-10">
+        <Wand2 className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Refine</span>
+      </div>
+
+      {lineage.length > 0 && (
+        <ScrollArea className="max-h-40">
+          <div className="flex flex-col gap-2 p-3">
+            {lineage.map((g, index) => (
+              <div
+                key={g.id}
+                className={`text-xs rounded-md px-3 py-2 ${index === 0 ? 'bg-muted text-muted-foreground' : 'bg-primary/10 self-end max-w-[85%]'}`}
+              >
+                {index === 0 && <Sparkles className="w-3 h-3 inline mr-1" />}
+                {g.prompt}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <div className="flex gap-2 p-3">
+        <Textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder="e.g. Make the header sticky"
+          className="min-h-[40px] h-10 text-sm resize-none"
+          disabled={isPending}
+        />
+        <Button size="icon" onClick={handleSubmit} disabled={isPending || instruction.trim().length < 3}>
+          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
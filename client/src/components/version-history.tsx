@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, RotateCcw } from "lucide-react";
+import { formatFiles } from "@/lib/formatter";
+import { sideBySideDiff, type DiffRow } from "@/lib/diff";
+import type { GenerationVersion, ProjectFile, VersionSource } from "@shared/schema";
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  generate: 'Generated',
+  refine: 'Refined',
+  fork: 'Duplicated',
+  save: 'Edited',
+  restore: 'Restored',
+};
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15', right: 'bg-muted/40' },
+  added: { left: 'bg-muted/40', right: 'bg-green-500/15' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+interface VersionHistoryProps {
+  generationId: string;
+  // The files as they are in the editor, including unsaved edits
+  currentFiles: ProjectFile[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isRestoring: boolean;
+  onRestore: (version: GenerationVersion) => void;
+}
+
+function parseFiles(version: GenerationVersion): ProjectFile[] {
+  try {
+    return JSON.parse(version.files);
+  } catch (e) {
+    return [];
+  }
+}
+
+function fileContent(files: ProjectFile[], name: string): string {
+  return files.find(f => f.name === name)?.content ?? '';
+}
+
+// Stored files may be minified model output while the editor holds formatted code, so compare both formatted
+function useFormattedFiles(files: ProjectFile[]): ProjectFile[] | undefined {
+  const [formatted, setFormatted] = useState<ProjectFile[]>();
+  useEffect(() => {
+    let cancelled = false;
+    formatFiles(files).then(result => {
+      if (!cancelled) setFormatted(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+  return formatted;
+}
+
+function DiffCellView({ cell, className }: { cell?: { line: number; text: string }; className: string }) {
+  return (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">{cell?.line ?? ''}</span>
+      <span className="whitespace-pre-wrap break-all">{cell?.text ?? ''}</span>
+    </div>
+  );
+}
+
+export function VersionHistory({
+  generationId,
+  currentFiles,
+  open,
+  onOpenChange,
+  isRestoring,
+  onRestore
+}: VersionHistoryProps) {
+  const { data: versions = [], isLoading } = useQuery<GenerationVersion[]>({
+    queryKey: ["/api/generations", generationId, "versions"],
+    enabled: open,
+  });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activeName, setActiveName] = useState<string | null>(null);
+
+  // Default to the previous version, the one most likely to be restored
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+    else if (!selectedId && versions.length > 0) setSelectedId((versions[1] ?? versions[0]).id);
+  }, [open, versions, selectedId]);
+
+  const selected = versions.find(v => v.id === selectedId);
+  const selectedFiles = useMemo(() => (selected ? parseFiles(selected) : []), [selected]);
+  const formattedSelected = useFormattedFiles(selectedFiles);
+  const formattedCurrent = useFormattedFiles(currentFiles);
+  const isFormatting = !formattedSelected || !formattedCurrent;
+
+  // Every file in either version, changed ones first
+  const fileChanges = useMemo(() => {
+    if (!formattedSelected || !formattedCurrent) return [];
+    const names = Array.from(new Set([...formattedSelected, ...formattedCurrent].map(f => f.name))).sort();
+    return names
+      .map(name => ({ name, changed: fileContent(formattedSelected, name) !== fileContent(formattedCurrent, name) }))
+      .sort((a, b) => Number(b.changed) - Number(a.changed));
+  }, [formattedSelected, formattedCurrent]);
+
+  const activeFile = fileChanges.find(f => f.name === activeName) ?? fileChanges[0];
+  const rows = useMemo(
+    () => activeFile && formattedSelected && formattedCurrent
+      ? sideBySideDiff(fileContent(formattedSelected, activeFile.name), fileContent(formattedCurrent, activeFile.name))
+      : [],
+    [activeFile?.name, formattedSelected, formattedCurrent]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>Compare a saved version (left) with the current files (right) and restore it.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || (versions.length > 0 && isFormatting) ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="flex-1 text-sm text-muted-foreground text-center py-12">
+            No versions recorded yet. Versions are saved whenever files are generated, refined or edited.
+          </p>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-3">
+            <ScrollArea className="w-56 shrink-0 border rounded-md">
+              <div className="flex flex-col p-1">
+                {versions.map((version, index) => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedId(version.id)}
+                    className={`text-left rounded px-2 py-1.5 text-xs hover:bg-muted ${version.id === selectedId ? 'bg-muted' : ''}`}
+                  >
+                    <div className="flex items-center gap-1 font-medium">
+                      {SOURCE_LABELS[version.source] ?? version.source}
+                      {index === 0 && <Badge variant="secondary" className="h-4 px-1 text-[10px]">Latest</Badge>}
+                    </div>
+                    <div className="text-muted-foreground">{format(new Date(version.createdAt), "MMM d, h:mm:ss a")}</div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col flex-1 min-w-0 gap-2">
+              <div className="flex items-center gap-2">
+                <div className="flex flex-wrap gap-1 flex-1 min-w-0">
+                  {fileChanges.map(file => (
+                    <Button
+                      key={file.name}
+                      variant={file.name === activeFile?.name ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setActiveName(file.name)}
+                    >
+                      {file.name}{file.changed && ' •'}
+                    </Button>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  className="h-7 shrink-0"
+                  disabled={!selected || isRestoring || fileChanges.every(f => !f.changed)}
+                  onClick={() => selected && onRestore(selected)}
+                >
+                  {isRestoring ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                  Restore this version
+                </Button>
+              </div>
+
+              <ScrollArea className="flex-1 border rounded-md">
+                {activeFile && !activeFile.changed ? (
+                  <p className="text-sm text-muted-foreground text-center py-12">No differences in {activeFile.name}.</p>
+                ) : (
+                  <div className="font-mono text-xs">
+                    {rows.map((row, index) => (
+                      <div key={index} className="grid grid-cols-2 divide-x">
+                        <DiffCellView cell={row.left} className={ROW_STYLES[row.kind].left} />
+                        <DiffCellView cell={row.right} className={ROW_STYLES[row.kind].right} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
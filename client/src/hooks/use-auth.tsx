@@ -0,0 +1,111 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser, RegisterRequest } from "@shared/schema";
+import { getQueryFn, queryClient, toApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, RegisterRequest>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterRequest>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+async function postAuth(url: string, data?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw toApiError(await res.json().catch(() => ({})), "Request failed");
+  }
+  return res;
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (user: PublicUser) => {
+    // Drop anything cached for a previous user before showing this one's data
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: RegisterRequest) => {
+      const res = await postAuth("/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: RegisterRequest) => {
+      const res = await postAuth("/api/register", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await postAuth("/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,102 @@
+export type DiffCell = {
+  // 1-based line number in its file
+  line: number;
+  text: string;
+};
+
+// One row of a side-by-side diff; removed lines only have a left cell, added ones only a right cell
+export type DiffRow = {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  left?: DiffCell;
+  right?: DiffCell;
+};
+
+type Op = { kind: 'same' | 'removed' | 'added'; text: string };
+
+// Above this many (changed lines x changed lines) the LCS table gets too big; show a full rewrite instead
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffLines(before: string[], after: string[]): Op[] {
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const middle: Op[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    a.forEach(text => middle.push({ kind: 'removed', text }));
+    b.forEach(text => middle.push({ kind: 'added', text }));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+    const n = a.length;
+    const m = b.length;
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[i] === b[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[i] === b[j]) {
+        middle.push({ kind: 'same', text: a[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        middle.push({ kind: 'removed', text: a[i++] });
+      } else {
+        middle.push({ kind: 'added', text: b[j++] });
+      }
+    }
+    while (i < n) middle.push({ kind: 'removed', text: a[i++] });
+    while (j < m) middle.push({ kind: 'added', text: b[j++] });
+  }
+
+  return [
+    ...before.slice(0, start).map(text => ({ kind: 'same' as const, text })),
+    ...middle,
+    ...before.slice(endBefore).map(text => ({ kind: 'same' as const, text })),
+  ];
+}
+
+// Line diff of two texts laid out side by side, pairing removed lines with the added lines that replace them
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+  const ops = diffLines(before ? before.split('\n') : [], after ? after.split('\n') : []);
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].kind === 'same') {
+      rows.push({ kind: 'same', left: { line: leftLine++, text: ops[k].text }, right: { line: rightLine++, text: ops[k].text } });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].kind !== 'same') {
+      (ops[k].kind === 'removed' ? removed : added).push(ops[k].text);
+      k++;
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const left = r < removed.length ? { line: leftLine++, text: removed[r] } : undefined;
+      const right = r < added.length ? { line: rightLine++, text: added[r] } : undefined;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows;
+}
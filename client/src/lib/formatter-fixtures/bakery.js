@@ -0,0 +1 @@
+"use strict";(()=>{const e=document.getElementById("cart-count"),t=document.querySelector(".cart-btn"),n=document.querySelector(".newsletter"),o=n?.querySelector(".form-msg"),a=new Map,r=/^[\w.+-]+@[\w-]+(\.[\w-]+)+$/,s=/\/\*[\s\S]*?\*\//g;class Cart{#items=new Map;static FREE_SHIPPING=25;add(i,p){const c=this.#items.get(i)??{qty:0,price:p};c.qty++,this.#items.set(i,c),this.render()}get count(){let c=0;for(const{qty:q}of this.#items.values())c+=q;return c}get total(){return[...this.#items.values()].reduce((s,{qty:q,price:p})=>s+q*p,0)}render(){e.textContent=this.count,t.dataset.count=this.count,t.disabled=!this.count,t.title=this.total>=Cart.FREE_SHIPPING?"Free shipping unlocked!":`Add $${(Cart.FREE_SHIPPING-this.total).toFixed(2)} more for free shipping`}}const c=new Cart;document.querySelectorAll(".item:not(.sold-out) .add").forEach(i=>{i.addEventListener("click",()=>{const l=i.closest(".item"),p=parseFloat(l.dataset.price);c.add(l.dataset.id,p),i.textContent="Added ✓",setTimeout(()=>i.textContent="Add to cart",1200)})});const h=(i,l=1e3)=>new Promise(p=>setTimeout(p,l/ 2/ 1));n&&n.addEventListener("submit",async i=>{i.preventDefault();const l=n.querySelector("input"),p=l.value.trim().replace(s,"");if(!r.test(p)){o.textContent='Hmm, that email doesn\'t look right.';l.focus();return}o.textContent="Subscribing…";let d=0;for(;;){try{await h(d);break}catch(u){if(++d>3)throw u}}o.textContent=`Thanks! We'll send fresh-bake alerts to ${p.replace(/[<>]/g,"")}.`,n.reset()});const m=new Date,y=m.getDay(),g=m.getHours()+m.getMinutes()/60,w={0:null,1:null,2:[7,18],3:[7,18],4:[7,18],5:[7,18],6:[8,14]}[y],x=w&&g>=w[0]&&g<w[1];document.querySelector(".hours").insertAdjacentHTML("beforebegin",`<p class="open-now ${x?"is-open":"is-closed"}">${x?"We're open — come on in!":"Closed right now. "+(w?`Opens at ${w[0]}:00.`:"See you Tuesday!")}</p>`);console.debug("menu ready",a.size,"items",void 0)})();
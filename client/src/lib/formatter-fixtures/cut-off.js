@@ -0,0 +1 @@
+const schedule=[{day:"Mon",time:"7:00",name:"Vinyasa"},{day:"Tue",time:"18:30",name:"Yin"}];function renderSchedule(){const list=document.getElementById("schedule");list.innerHTML=schedule.map(s=>`<li>${s.day} ${s.time} — ${s.name}</li>`).join("");document.querySelectorAll(".book").forEach(b=>b.addEventListener("click",()=>{const cls=schedule.find(s=>s.name===b.dataset.class);if(!cls){alert("Class not found
@@ -0,0 +1,255 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { parse as parseJs } from "acorn";
+import postcss from "postcss";
+import { parse as parseHtml, type DefaultTreeAdapterMap } from "parse5";
+import { formatCode, formatFiles, type FileType, type FormatOptions } from "./formatter";
+
+const single: FormatOptions = { indentWidth: 2, quoteStyle: "single" };
+const double: FormatOptions = { indentWidth: 4, quoteStyle: "double" };
+
+// Minified code in the shapes models send back, with the constructs a naive
+// formatter would break
+const SCRIPT = String.raw`const re=/["'\x60]+\/(a|b)*/g;const t=` + "`Hi ${name}  \\`x\\``" + String.raw`;let s='it\'s';let d="say \"hi\"";for(;;){if(!re.test(s))break}function f(a,b){return a/b/2}`;
+
+const STYLESHEET = `@media (max-width:600px){.a>.b,.c{color:red;background:url("a b.png")}}.x::before{content:'\\201C'}`;
+
+const PAGE = `<!DOCTYPE html><html><head><style>body{margin:0}h1{color:red}</style></head><body><p>Hello <b>world</b>! It's <a href="#">here</a>.</p><pre>  line 1
+    line  2</pre><script>const x=\`a  b\`;if(x){console.log("y")}</script></body></html>`;
+
+// Formatting shouldn't change what the code does
+function evaluate(code: string) {
+  return new Function("name", `${code}; return { re: re.source, t, s, d, q: f(8, 2) };`)("Ann");
+}
+
+describe("formatCode", () => {
+  test("keeps template literals, regexes and escaped quotes intact", async () => {
+    const formatted = await formatCode(SCRIPT, "js", single);
+
+    assert.ok(formatted.includes(String.raw`const re = /["'\x60]+\/(a|b)*/g;`), formatted);
+    assert.ok(formatted.includes("const t = `Hi ${name}  \\`x\\``;"), formatted);
+    assert.deepEqual(evaluate(formatted), evaluate(SCRIPT));
+  });
+
+  test("keeps both semicolons of for(;;)", async () => {
+    const formatted = await formatCode(SCRIPT, "js", single);
+
+    assert.match(formatted, /^for \(;;\) \{\n {2}if \(!re\.test\(s\)\) break;\n\}$/m);
+  });
+
+  test("applies the indent width", async () => {
+    assert.match(await formatCode(SCRIPT, "js", single), /^ {2}return a \/ b \/ 2;$/m);
+    assert.match(await formatCode(SCRIPT, "js", double), /^ {4}return a \/ b \/ 2;$/m);
+  });
+
+  test("applies the quote style unless it would add escapes", async () => {
+    assert.match(await formatCode(`let a="x";`, "js", single), /let a = 'x';/);
+    assert.match(await formatCode(`let a='x';`, "js", double), /let a = "x";/);
+
+    // Quotes inside the string win over the preference
+    const formatted = await formatCode(SCRIPT, "js", double);
+    assert.ok(formatted.includes(`let s = "it's";`), formatted);
+    assert.ok(formatted.includes(`let d = 'say "hi"';`), formatted);
+  });
+
+  test("formats CSS without touching strings or escapes", async () => {
+    assert.equal(await formatCode(STYLESHEET, "css", single), [
+      "@media (max-width: 600px) {",
+      "  .a > .b,",
+      "  .c {",
+      "    color: red;",
+      "    background: url('a b.png');",
+      "  }",
+      "}",
+      ".x::before {",
+      "  content: '\\201C';",
+      "}",
+    ].join("\n"));
+  });
+
+  test("keeps inline text and <pre> content as written", async () => {
+    const formatted = await formatCode(PAGE, "html", single);
+
+    assert.ok(formatted.includes(`<p>Hello <b>world</b>! It's <a href="#">here</a>.</p>`), formatted);
+    assert.ok(formatted.includes("  line 1\n    line  2</pre>"), formatted);
+  });
+
+  test("formats inline <style> and <script> with their own parsers", async () => {
+    const formatted = await formatCode(PAGE, "html", double);
+
+    assert.match(formatted, /^ {16}margin: 0;$/m);
+    assert.ok(formatted.includes("const x = `a  b`;"), formatted);
+    assert.match(formatted, /^ {16}console\.log\("y"\);$/m);
+  });
+
+  test("returns code that doesn't parse unchanged", async (t) => {
+    t.mock.method(console, "error", () => {});
+
+    for (const [code, type] of [["function(", "js"], [".a{color:", "css"], ["<div><p>Hi</span></div>", "html"]] as const) {
+      assert.equal(await formatCode(code, type, single), code);
+    }
+  });
+
+  test("returns empty code as is", async () => {
+    assert.equal(await formatCode("", "js", single), "");
+  });
+});
+
+/**
+ * Whole files in the shape generations come back in: minified single-file
+ * pages and index.html/style.css/script.js projects, and replies cut off
+ * mid-file. Add a file here to cover it with the checks below.
+ */
+const FIXTURES_DIR = new URL("./formatter-fixtures/", import.meta.url);
+const fixtures = readdirSync(FIXTURES_DIR).sort().map((name) => ({
+  name,
+  type: name.slice(name.lastIndexOf(".") + 1) as FileType,
+  code: readFileSync(new URL(name, FIXTURES_DIR), "utf8"),
+}));
+
+type Node = DefaultTreeAdapterMap["node"];
+type Element = DefaultTreeAdapterMap["element"];
+
+// Positions and quoting differ after formatting; what the code means doesn't
+function jsMeaning(code: string): unknown {
+  const strip = (value: any): any => {
+    if (Array.isArray(value)) return value.map(strip);
+    if (!value || typeof value !== "object" || value instanceof RegExp) return value;
+    // `raw` is a literal's source text; template strings keep theirs under `value`
+    const { start, end, raw, ...rest } = value;
+    return Object.fromEntries(Object.entries(rest).map(([key, v]) => [key, strip(v)]));
+  };
+  return strip(parseJs(code, { ecmaVersion: "latest", sourceType: "script" }));
+}
+
+// Rules and declarations in order, with whitespace, quotes, hex case and leading zeros evened out
+function cssMeaning(code: string): string[] {
+  const normalize = (text: string) => text
+    .replace(/'/g, '"')
+    .replace(/#[\da-f]{3,8}\b/gi, (hex) => hex.toLowerCase())
+    .replace(/\s+/g, " ")
+    .replace(/\s*([,>+~()/])\s*/g, "$1")
+    .replace(/(^|[^\w.])\.(\d)/g, (_, before, digit) => `${before}0.${digit}`)
+    .trim();
+  const meaning: string[] = [];
+  postcss.parse(code).walk((node) => {
+    if (node.type === "rule") meaning.push(`rule ${normalize(node.selector)}`);
+    if (node.type === "atrule") meaning.push(`@${node.name} ${normalize(node.params).replace(/\s*:\s*/g, ":")}`);
+    if (node.type === "decl") meaning.push(`${node.prop}:${normalize(node.value)}${node.important ? "!important" : ""}`);
+  });
+  return meaning;
+}
+
+function textContent(node: Node): string {
+  if ("value" in node) return node.value;
+  return "childNodes" in node ? node.childNodes.map(textContent).join("") : "";
+}
+
+// Elements whose surrounding whitespace is rendered; around others it is not.
+// Inside inline blocks (and SVG) leading and trailing whitespace isn't shown either.
+const INLINE = new Set(["a", "abbr", "b", "br", "cite", "code", "em", "i", "img", "input", "label", "small", "span", "strong", "time"]);
+const INLINE_BLOCK = new Set(["button", "select"]);
+
+/**
+ * What a page shows and runs: elements and their attributes, text with
+ * whitespace collapsed where the browser collapses it, <pre> and <textarea>
+ * content as is, and the meaning of inline scripts and styles.
+ */
+function htmlMeaning(code: string): unknown[] {
+  const meaning: unknown[] = [];
+  let text = "";
+  const flush = () => {
+    const collapsed = text.replace(/\s+/g, " ").trim();
+    if (collapsed) meaning.push(collapsed);
+    text = "";
+  };
+  const attrs = (element: Element) => element.attrs.map(({ name, value }) => {
+    if (name === "class") return `class=${value.trim().split(/\s+/).join(" ")}`;
+    if (name === "style") return `style=${cssMeaning(`x{${value}}`).join(";")}`;
+    return `${name}=${value}`;
+  });
+
+  const walk = (node: Node) => {
+    if (node.nodeName === "#text") {
+      text += textContent(node);
+      return;
+    }
+    if (!("tagName" in node)) {
+      if ("childNodes" in node) node.childNodes.forEach(walk);
+      return;
+    }
+    const tag = `<${node.tagName} ${attrs(node).join(" ")}>`;
+    if (INLINE.has(node.tagName)) {
+      text += tag;
+      node.childNodes.forEach(walk);
+      text += `</${node.tagName}>`;
+      return;
+    }
+    if (INLINE_BLOCK.has(node.tagName) || node.namespaceURI.endsWith("/svg")) {
+      const outer = text;
+      text = "";
+      node.childNodes.forEach(walk);
+      text = `${outer}${tag}${text.trim()}</${node.tagName}>`;
+      return;
+    }
+
+    flush();
+    meaning.push(tag);
+    const type = node.attrs.find((attr) => attr.name === "type")?.value;
+    if (node.tagName === "script") {
+      meaning.push(type === "application/ld+json" ? JSON.parse(textContent(node)) : jsMeaning(textContent(node)));
+    } else if (node.tagName === "style") {
+      meaning.push(cssMeaning(textContent(node)));
+    } else if (node.tagName === "pre" || node.tagName === "textarea") {
+      meaning.push(textContent(node));
+    } else {
+      node.childNodes.forEach(walk);
+    }
+    flush();
+    meaning.push(`</${node.tagName}>`);
+  };
+  walk(parseHtml(code));
+  flush();
+  return meaning;
+}
+
+const MEANING: Record<FileType, (code: string) => unknown> = { html: htmlMeaning, css: cssMeaning, js: jsMeaning };
+
+describe("formatCode on generated files", () => {
+  for (const { name, type, code } of fixtures) {
+    test(`${name}: keeps its meaning, or is returned unchanged`, async (t) => {
+      t.mock.method(console, "error", () => {});
+
+      for (const options of [single, double]) {
+        const formatted = await formatCode(code, type, options);
+        if (formatted === code) continue;
+
+        assert.deepEqual(MEANING[type](formatted), MEANING[type](code));
+        // Formatting again changes nothing
+        assert.equal(await formatCode(formatted, type, options), formatted);
+      }
+    });
+  }
+
+  test("formats the complete files and leaves the cut-off ones alone", async (t) => {
+    t.mock.method(console, "error", () => {});
+
+    for (const { name, type, code } of fixtures) {
+      const formatted = await formatCode(code, type, single);
+      assert.equal(formatted === code, name.startsWith("cut-off"), name);
+    }
+  });
+});
+
+describe("formatFiles", () => {
+  test("formats each file by its type", async () => {
+    const files = await formatFiles([
+      { name: "index.html", type: "html", content: "<p>Hi</p>" },
+      { name: "style.css", type: "css", content: "p{color:red}" },
+      { name: "script.js", type: "js", content: "let a=1" },
+    ], single);
+
+    assert.deepEqual(files.map((file) => file.content), ["<p>Hi</p>", "p {\n  color: red;\n}", "let a = 1;"]);
+  });
+});
@@ -1,131 +1,82 @@
-export type FileType = 'html' | 'css' | 'js';
+import type { Options, Plugin } from "prettier";
+import type { ProjectFile } from "@shared/schema";
 
-export function formatCode(code: string, type: FileType): string {
-    if (!code) return "";
+export type FileType = 'html' | 'css' | 'js';
 
-    try {
-        switch (type) {
-            case 'html':
-                return formatHtml(code);
-            case 'css':
-                return formatCss(code);
-            case 'js':
-                return formatJs(code);
-            default:
-                return code;
-        }
-    } catch (e) {
-        console.error("Formatting failed:", e);
-        return code;
-    }
+export interface FormatOptions {
+  indentWidth: number;
+  quoteStyle: 'single' | 'double';
 }
 
-function formatHtml(html: string): string {
-    let formatted = '';
-    let indent = 0;
-
-    // Remove existing whitespace between tags to start fresh
-    const cleanHtml = html.replace(/>\s+</g, '><').trim();
-
-    // Split by tags
-    // This regex matches tags, comments, or text content
-    const parts = cleanHtml.split(/(<[^>]+>)/g).filter(Boolean);
-
-    const voidTags = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
-
-    parts.forEach(part => {
-        if (part.startsWith('</')) {
-            // Closing tag
-            indent = Math.max(0, indent - 1);
-            formatted += '  '.repeat(indent) + part + '\n';
-        } else if (part.startsWith('<') && !part.startsWith('<!')) {
-            // Opening tag (or void tag)
-            formatted += '  '.repeat(indent) + part + '\n';
-
-            const tagName = part.match(/<([a-z0-9]+)/i)?.[1]?.toLowerCase();
-            if (tagName && !voidTags.includes(tagName) && !part.endsWith('/>')) {
-                indent++;
-            }
-        } else {
-            // Text content
-            if (part.trim()) {
-                formatted += '  '.repeat(indent) + part.trim() + '\n';
-            }
-        }
-    });
-
-    return formatted.trim();
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = { indentWidth: 2, quoteStyle: 'single' };
+export const INDENT_WIDTHS = [2, 4];
+
+const FORMAT_OPTIONS_KEY = "teclanc.formatOptions";
+
+const PARSERS: Record<FileType, string> = {
+  html: 'html',
+  css: 'css',
+  js: 'babel',
+};
+
+export function getFormatOptions(): FormatOptions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FORMAT_OPTIONS_KEY) ?? '{}');
+    return {
+      indentWidth: INDENT_WIDTHS.includes(saved.indentWidth) ? saved.indentWidth : DEFAULT_FORMAT_OPTIONS.indentWidth,
+      quoteStyle: saved.quoteStyle === 'double' ? 'double' : DEFAULT_FORMAT_OPTIONS.quoteStyle,
+    };
+  } catch (e) {
+    return DEFAULT_FORMAT_OPTIONS;
+  }
 }
 
-function formatCss(css: string): string {
-    let formatted = '';
-    let indent = 0;
-
-    // Remove newlines and excess spaces
-    const cleanCss = css.replace(/\s+/g, ' ').replace(/\{\s+/g, '{').replace(/\s+\}/g, '}').replace(/;\s+/g, ';');
-
-    for (let i = 0; i < cleanCss.length; i++) {
-        const char = cleanCss[i];
-
-        if (char === '{') {
-            formatted += ' {\n';
-            indent++;
-            formatted += '  '.repeat(indent);
-        } else if (char === '}') {
-            formatted += '\n';
-            indent = Math.max(0, indent - 1);
-            formatted += '  '.repeat(indent) + '}';
-            if (i + 1 < cleanCss.length && cleanCss[i + 1] !== '}') {
-                formatted += '\n' + '  '.repeat(indent);
-            }
-        } else if (char === ';') {
-            formatted += ';\n' + '  '.repeat(indent);
-        } else {
-            formatted += char;
-        }
-    }
-
-    return formatted.trim();
+export function setFormatOptions(options: FormatOptions) {
+  localStorage.setItem(FORMAT_OPTIONS_KEY, JSON.stringify(options));
 }
 
-function formatJs(js: string): string {
-    let formatted = '';
-    let indent = 0;
-    let inString = false;
-
-    // A very basic JS formatter
-    // Ideally, use a library, but this helps for simple minified code
-
-    // Remove simple newlines if creating congestion, but be careful not to break code
-    // We'll process char by char
-
-    const cleanJs = js.trim();
-
-    for (let i = 0; i < cleanJs.length; i++) {
-        const char = cleanJs[i];
-
-        // Toggle string mode (simplified, doesn't handle escaped quotes perfectly)
-        if (char === '"' || char === "'") inString = !inString;
-
-        if (inString) {
-            formatted += char;
-            continue;
-        }
+// Prettier is large, so it's loaded on first use rather than with the page.
+// The HTML printer needs the CSS and JS plugins for <style> and <script>.
+let prettier: Promise<{ format: (code: string, options: Options) => Promise<string>; plugins: Plugin[] }> | undefined;
+
+function loadPrettier() {
+  prettier ??= Promise.all([
+    import("prettier/standalone"),
+    import("prettier/plugins/html"),
+    import("prettier/plugins/postcss"),
+    import("prettier/plugins/babel"),
+    import("prettier/plugins/estree"),
+  ]).then(([standalone, ...plugins]) => ({
+    format: standalone.format,
+    plugins: plugins as Plugin[],
+  }));
+  return prettier;
+}
 
-        if (char === '{') {
-            formatted += ' {\n';
-            indent++;
-            formatted += '  '.repeat(indent);
-        } else if (char === '}') {
-            formatted += '\n';
-            indent = Math.max(0, indent - 1);
-            formatted += '  '.repeat(indent) + '}';
-        } else if (char === ';') {
-            formatted += ';\n' + '  '.repeat(indent);
-        } else {
-            formatted += char;
-        }
-    }
+/**
+ * Pretty-prints a file by parsing it, so strings, template literals, regexes,
+ * <pre> blocks and inline text come out with the same meaning they went in
+ * with. Code that doesn't parse (a half-written edit) is returned unchanged.
+ */
+export async function formatCode(code: string, type: FileType, options: FormatOptions = getFormatOptions()): Promise<string> {
+  if (!code) return "";
+
+  try {
+    const { format, plugins } = await loadPrettier();
+    const formatted = await format(code, {
+      parser: PARSERS[type],
+      plugins,
+      tabWidth: options.indentWidth,
+      singleQuote: options.quoteStyle === 'single',
+      printWidth: 100,
+    });
+    return formatted.trimEnd();
+  } catch (e) {
+    console.error("Formatting failed:", e);
+    return code;
+  }
+}
 
-    return formatted.trim();
+export function formatFiles(files: ProjectFile[], options?: FormatOptions): Promise<ProjectFile[]> {
+  return Promise.all(files.map(async f => ({ ...f, content: await formatCode(f.content, f.type, options) })));
 }
@@ -0,0 +1,77 @@
+import type { GenerateRequest, Generation, GenerationJob } from "@shared/schema";
+import { toApiError } from "@/lib/queryClient";
+import { handleGenerationEvent, readEventStream, type GenerationStreamHandlers } from "@/lib/stream";
+
+// Wait before reopening a job's event stream that closed while the job was still running
+const RECONNECT_DELAY_MS = 1000;
+// Remembers the job being waited for, so a reloaded page can reconnect to it
+const ACTIVE_JOB_KEY = "teclanc.activeJobId";
+
+export interface JobHandlers extends GenerationStreamHandlers {
+  // Called with the whole job on (re)connect and whenever its status changes,
+  // so a reconnecting caller can catch up on progress it missed
+  onUpdate?: (job: GenerationJob) => void;
+}
+
+async function jobRequest(method: string, url: string, data?: unknown): Promise<GenerationJob> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw toApiError(body, "Failed to generate website");
+  }
+  return body as GenerationJob;
+}
+
+export function submitJob(request: GenerateRequest): Promise<GenerationJob> {
+  return jobRequest("POST", "/api/jobs", request);
+}
+
+export function cancelJob(id: string): Promise<GenerationJob> {
+  return jobRequest("DELETE", `/api/jobs/${id}`);
+}
+
+export function getActiveJobId(): string | null {
+  return localStorage.getItem(ACTIVE_JOB_KEY);
+}
+
+export function setActiveJobId(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_JOB_KEY, id);
+  else localStorage.removeItem(ACTIVE_JOB_KEY);
+}
+
+// Follows a job's event stream until it finishes, resolving with the saved generation
+export async function waitForJob(id: string, handlers: JobHandlers = {}): Promise<Generation> {
+  while (true) {
+    const res = await fetch(`/api/jobs/${id}/events`, { credentials: "include" });
+    if (!res.ok || !res.body) {
+      const body = await res.json().catch(() => ({}));
+      throw toApiError(body, "Failed to generate website");
+    }
+
+    for await (const streamEvent of readEventStream(res.body)) {
+      if (streamEvent.event !== "job") {
+        handleGenerationEvent(streamEvent, handlers);
+        continue;
+      }
+
+      const job: GenerationJob = streamEvent.data;
+      handlers.onUpdate?.(job);
+      switch (job.status) {
+        case "succeeded":
+          return job.generation!;
+        case "failed":
+          throw toApiError(job.error, "Failed to generate website");
+        case "cancelled":
+          throw toApiError({ error: "Generation cancelled", code: "CANCELLED" }, "Generation cancelled");
+      }
+    }
+
+    // Dropped by a proxy or a server restart; the job sent on reconnect brings us up to date
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+  }
+}
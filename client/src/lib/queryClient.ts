@@ -1,8 +1,26 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error carrying the server's error code (and wait time for rate limits)
+export function toApiError(data: any, fallback: string) {
+  const error: any = new Error(data?.error || fallback);
+  error.code = data?.code;
+  error.waitTime = data?.waitTime;
+  return error;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      // Not JSON; the raw body goes in the message below
+    }
+    // API routes answer with `{ error, code }`
+    if (typeof data?.error === "string") {
+      throw toApiError(data, text);
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
@@ -0,0 +1,74 @@
+export type StreamedFile = {
+  name: string;
+  content: string;
+};
+
+export type StreamEvent = {
+  event: string;
+  data: any;
+};
+
+export interface GenerationStreamHandlers {
+  onToken?: (text: string) => void;
+  onFile?: (file: StreamedFile) => void;
+  // The reply was cut off and the server asked the model to continue
+  onContinue?: (round: number) => void;
+  // The files failed validation and the server asked the model to fix them
+  onRepair?: (round: number) => void;
+  // A model from the server's chain starts; earlier output came from one that failed
+  onModel?: (model: string) => void;
+}
+
+// Yields the events of a server-sent event stream with their JSON data parsed,
+// until the server ends the stream; stopping early closes the connection
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = "message";
+        let data = "";
+        for (const line of rawEvent.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data += line.slice(5).trim();
+        }
+        if (data) yield { event, data: JSON.parse(data) };
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+// Passes a generation progress event (the ones /api/generate/stream and
+// /api/jobs/:id/events share) to its handler; other events are ignored
+export function handleGenerationEvent({ event, data }: StreamEvent, handlers: GenerationStreamHandlers) {
+  switch (event) {
+    case "token":
+      handlers.onToken?.(data.text);
+      break;
+    case "file":
+      handlers.onFile?.(data);
+      break;
+    case "continue":
+      handlers.onContinue?.(data.round);
+      break;
+    case "repair":
+      handlers.onRepair?.(data.round);
+      break;
+    case "model":
+      handlers.onModel?.(data.model);
+      break;
+  }
+}
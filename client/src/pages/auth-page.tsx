@@ -0,0 +1,134 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuth } from "@/hooks/use-auth";
+import { registerRequestSchema, type RegisterRequest } from "@shared/schema";
+import { Code2, Loader2, Sparkles } from "lucide-react";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+function CredentialsForm({
+  schema,
+  submitLabel,
+  isPending,
+  onSubmit,
+}: {
+  schema: z.ZodType<RegisterRequest>;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: RegisterRequest) => void;
+}) {
+  const form = useForm<RegisterRequest>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <header className="flex items-center justify-between gap-4 px-4 md:px-6 h-14 md:h-16 border-b shrink-0">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-8 h-8 md:w-9 md:h-9 rounded-lg bg-primary">
+            <Code2 className="w-4 h-4 md:w-5 md:h-5 text-primary-foreground" />
+          </div>
+          <span className="text-lg md:text-xl font-semibold">Teclanc.AI</span>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex flex-1 items-center justify-center p-4">
+        <Card className="w-full max-w-md p-6">
+          <div className="flex flex-col items-center gap-2 mb-6 text-center">
+            <Sparkles className="w-8 h-8 text-primary" />
+            <h1 className="text-xl font-semibold">AI Website Builder</h1>
+            <p className="text-sm text-muted-foreground">Sign in to generate websites and keep your history.</p>
+          </div>
+
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Log in</TabsTrigger>
+              <TabsTrigger value="register">Create account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                schema={loginSchema}
+                submitLabel="Log in"
+                isPending={loginMutation.isPending}
+                onSubmit={(values) => loginMutation.mutate(values)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                schema={registerRequestSchema}
+                submitLabel="Create account"
+                isPending={registerMutation.isPending}
+                onSubmit={(values) => registerMutation.mutate(values)}
+              />
+            </TabsContent>
+          </Tabs>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,25 +1,30 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { CodeEditor } from "@/components/code-editor";
 import { FileExplorer } from "@/components/file-explorer";
 import { MobileNav } from "@/components/mobile-nav";
+import { RefinePanel } from "@/components/refine-panel";
+import { VersionHistory } from "@/components/version-history";
+import { HistoryPanel } from "@/components/history-panel";
+import { DownloadMenu } from "@/components/download-menu";
+import { AdvancedOptions, type AdvancedSettings } from "@/components/advanced-options";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
-import type { Generation, ProjectFile } from "@shared/schema";
-import { formatCode } from "@/lib/formatter";
+import type { Diagnostic, GenerateRequest, Generation, GenerationVersion, ModelsResponse, ProjectFile, Quota, UpdateGenerationRequest } from "@shared/schema";
+import { formatCode, formatFiles } from "@/lib/formatter";
+import type { StreamedFile } from "@/lib/stream";
+import { cancelJob, getActiveJobId, setActiveJobId, submitJob, waitForJob } from "@/lib/jobs";
 import {
   Sparkles,
   Download,
   History,
-  Trash2,
   Plus,
   Code2,
   Loader2,
@@ -36,9 +41,12 @@ import {
   User,
   PanelLeftClose,
   PanelLeftOpen,
-  FolderOpen
+  FolderOpen,
+  Check,
+  Circle,
+  LogOut,
+  BarChart3
 } from "lucide-react";
-import { format } from "date-fns";
 import {
   Sheet,
   SheetContent,
@@ -50,6 +58,33 @@ import {
 type DeviceMode = 'mobile' | 'tablet' | 'desktop';
 type MobileView = 'prompt' | 'code' | 'preview';
 
+// Files the generator produces; used to turn streamed files into progress
+const EXPECTED_FILE_COUNT = 3;
+// Rough size of a generated site, so token progress can advance between files
+const EXPECTED_OUTPUT_CHARS = 20000;
+// Idle time after the last edit before files are saved to the server
+const AUTOSAVE_DELAY_MS = 1500;
+// Idle time after the last change before the files are checked for problems
+const VALIDATE_DELAY_MS = 800;
+
+function fileTypeFromName(name: string): ProjectFile['type'] {
+  if (name.endsWith('.css')) return 'css';
+  if (name.endsWith('.js')) return 'js';
+  return 'html';
+}
+
+// Resolve a link found in `fromFile` (e.g. "../about.html#team") to a project file path
+function resolveProjectPath(fromFile: string, href: string): string {
+  const target = href.split(/[?#]/)[0];
+  const segments = target.startsWith('/') ? [] : fromFile.split('/').slice(0, -1);
+
+  for (const part of target.split('/')) {
+    if (part === '..') segments.pop();
+    else if (part && part !== '.') segments.push(part);
+  }
+  return segments.join('/');
+}
+
 export default function Home() {
   const [prompt, setPrompt] = useState("");
   const [currentHtml, setCurrentHtml] = useState<string | null>(null);
@@ -61,35 +96,212 @@ export default function Home() {
   const [isExplorerOpen, setIsExplorerOpen] = useState(true);
 
   const [progress, setProgress] = useState(0);
+  const [streamedChars, setStreamedChars] = useState(0);
+  const [continuationRound, setContinuationRound] = useState(0);
+  const [repairRound, setRepairRound] = useState(0);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [advancedSettings, setAdvancedSettings] = useState<AdvancedSettings>({});
   const [deviceMode, setDeviceMode] = useState<DeviceMode>('desktop');
 
   // Mobile specific state
   const [mobileView, setMobileView] = useState<MobileView>('prompt');
 
   const [showHistory, setShowHistory] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [activeMobileFile, setActiveMobileFile] = useState<boolean>(false); // To close sheet on select
 
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
 
-  const { data: generations = [], isLoading: historyLoading } = useQuery<Generation[]>({
-    queryKey: ["/api/generations"],
+  const { data: quota } = useQuery<Quota>({
+    queryKey: ["/api/quota"],
   });
 
+  const { data: modelOptions } = useQuery<ModelsResponse>({
+    queryKey: ["/api/models"],
+  });
+
+  // Autosave: every manual edit bumps editRevision; the server copy is
+  // up to date once savedRevision has caught up with it
+  const editRevision = useRef(0);
+  const [savedRevision, setSavedRevision] = useState(0);
+  const isDirty = editRevision.current !== savedRevision;
+  const canSave = !!currentGeneration && !currentGeneration.id.startsWith('manual-');
+
+  const saveFilesMutation = useMutation({
+    mutationFn: async ({ id, files }: { id: string; files: ProjectFile[]; revision: number }) => {
+      const response = await apiRequest("PUT", `/api/generations/${id}/files`, { files });
+      return response.json();
+    },
+    onSuccess: (data: Generation, { revision }) => {
+      setSavedRevision(prev => Math.max(prev, revision));
+      setCurrentGeneration(prev => prev?.id === data.id ? data : prev);
+      queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Autosave failed",
+        description: error.message || "Your changes could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!isDirty || !canSave || !currentGeneration) return;
+    const timer = setTimeout(() => {
+      saveFilesMutation.mutate({ id: currentGeneration.id, files, revision: editRevision.current });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files, isDirty, canSave, currentGeneration?.id]);
+
+  const markEdited = () => {
+    editRevision.current++;
+  };
+
+  // Save pending edits immediately and start clean, before the workspace switches project
+  const flushPendingSave = useCallback(() => {
+    if (isDirty && canSave && currentGeneration) {
+      saveFilesMutation.mutate({ id: currentGeneration.id, files, revision: editRevision.current });
+    }
+    setSavedRevision(editRevision.current);
+  }, [isDirty, canSave, currentGeneration, files, saveFilesMutation]);
+
+  const handleLogout = useCallback(async () => {
+    // Saving needs the session, so finish it before logging out
+    if (isDirty && canSave && currentGeneration) {
+      await saveFilesMutation
+        .mutateAsync({ id: currentGeneration.id, files, revision: editRevision.current })
+        .catch(() => {});
+    }
+    logoutMutation.mutate();
+  }, [isDirty, canSave, currentGeneration, files, saveFilesMutation, logoutMutation]);
+
+  // Problems in the files as shown. The generation's stored report describes the saved files,
+  // which are often minified, so its positions don't line up with the formatted editor
+  const [editorDiagnostics, setEditorDiagnostics] = useState<Diagnostic[]>([]);
+  useEffect(() => {
+    if (files.length === 0) {
+      setEditorDiagnostics([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      apiRequest("POST", "/api/validate", { files })
+        .then(res => res.json())
+        .then((result: Diagnostic[]) => {
+          if (!cancelled) setEditorDiagnostics(result);
+        })
+        // Markers are only a hint; keep the last ones
+        .catch(() => {});
+    }, VALIDATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [files]);
+
+  // Formatting is async; bumping this discards results meant for a workspace that has since been replaced
+  const formatRequest = useRef(0);
+
+  // Show a project's files formatted, with the HTML entry point open
+  const showFiles = useCallback(async (projectFiles: ProjectFile[]) => {
+    const request = ++formatRequest.current;
+    const formatted = await formatFiles(projectFiles);
+    if (request !== formatRequest.current) return;
+    setEditorDiagnostics([]);
+    setFiles(formatted);
+    setActiveFile(formatted.find(f => f.name === 'html/index.html' || f.name === 'index.html') ?? formatted[0] ?? null);
+  }, []);
+
+  // Render each file in the editor and preview as soon as the server finishes streaming it
+  const handleStreamedFile = useCallback(async (streamed: StreamedFile) => {
+    const request = formatRequest.current;
+    const type = fileTypeFromName(streamed.name);
+    const file: ProjectFile = {
+      name: streamed.name,
+      type,
+      content: await formatCode(streamed.content, type)
+    };
+    if (request !== formatRequest.current) return;
+
+    setFiles(prev => [...prev.filter(f => f.name !== file.name), file]);
+    if (file.type === 'html') {
+      setCurrentHtml(file.content);
+      setActiveFile(prev => prev ?? file);
+    }
+  }, []);
+
+  // Generation runs as a server-side job; passing a jobId reconnects to one already running
   const generateMutation = useMutation({
-    mutationFn: async (promptText: string) => {
-      const response = await apiRequest("POST", "/api/generate", { prompt: promptText });
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error || "Failed to generate website";
-        const errorCode = errorData.code;
-        const waitTime = errorData.waitTime;
-        const error: any = new Error(errorMessage);
-        error.code = errorCode;
-        error.waitTime = waitTime;
-        throw error;
+    mutationFn: async (request: GenerateRequest | { jobId: string }) => {
+      const id = 'jobId' in request ? request.jobId : (await submitJob(request)).id;
+      setActiveJobId(id);
+      setJobId(id);
+
+      const shownFiles = new Set<string>();
+      let shownModel: string | undefined;
+      let promptRestored = !('jobId' in request);
+
+      const showModel = (model: string | undefined) => {
+        // The server fell back to another model: its files replace the failed attempt's
+        if (shownModel && model !== shownModel) {
+          shownFiles.clear();
+          formatRequest.current++;
+          setFiles([]);
+          setActiveFile(null);
+          setCurrentHtml(null);
+          setStreamedChars(0);
+        }
+        shownModel = model;
+      };
+      const showFile = (file: StreamedFile) => {
+        if (shownFiles.has(file.name)) return;
+        shownFiles.add(file.name);
+        handleStreamedFile(file);
+      };
+
+      try {
+        return await waitForJob(id, {
+          // Sent when the stream (re)connects and on status changes; catches up on anything missed
+          onUpdate: (job) => {
+            if (!promptRestored) {
+              const { prompt: jobPrompt, ...settings } = job.request;
+              setPrompt(jobPrompt);
+              setAdvancedSettings(settings);
+              promptRestored = true;
+            }
+            showModel(job.progress.model);
+            setStreamedChars(job.progress.chars);
+            setContinuationRound(job.progress.continuationRounds);
+            setRepairRound(job.progress.repairRound);
+            job.progress.files.forEach(showFile);
+          },
+          onModel: showModel,
+          onToken: (text) => setStreamedChars(chars => chars + text.length),
+          onFile: showFile,
+          onContinue: setContinuationRound,
+          onRepair: setRepairRound,
+        });
+      } finally {
+        setActiveJobId(null);
+        setJobId(null);
       }
-      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quota"] });
+    },
+    onMutate: () => {
+      formatRequest.current++;
+      setFiles([]);
+      setActiveFile(null);
+      setCurrentHtml(null);
+      setCurrentGeneration(null);
+      setStreamedChars(0);
+      setContinuationRound(0);
+      setRepairRound(0);
+      setProgress(0);
     },
     onSuccess: (data: Generation) => {
       setCurrentHtml(data.generatedHtml);
@@ -119,14 +331,7 @@ export default function Home() {
         ];
       }
 
-      setFiles(projectFiles.map(f => ({
-        ...f,
-        content: formatCode(f.content, f.type)
-      })));
-      setActiveFile(prev => {
-        const found = projectFiles.find(f => f.name === 'html/index.html' || f.name === 'index.html');
-        return found ? { ...found, content: formatCode(found.content, found.type) } : projectFiles[0];
-      });
+      showFiles(projectFiles);
 
       // On mobile, switch to preview automatically on success
       if (window.innerWidth < 768) {
@@ -140,6 +345,11 @@ export default function Home() {
       });
     },
     onError: (error: any) => {
+      if (error.code === 'CANCELLED') {
+        toast({ title: "Generation cancelled" });
+        return;
+      }
+
       let title = "Generation failed";
       let description = error.message || "Something went wrong. Please try again.";
 
@@ -178,20 +388,61 @@ export default function Home() {
     },
   });
 
+  const forkMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Duplicate what the user sees when it's the open project
+      if (id === currentGeneration?.id && isDirty && canSave) {
+        await saveFilesMutation.mutateAsync({ id, files, revision: editRevision.current });
+      }
+      const response = await apiRequest("POST", `/api/generations/${id}/fork`);
+      return response.json();
+    },
+    onSuccess: (data: Generation) => {
+      handleLoadGeneration(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
+      toast({
+        title: "Duplicated",
+        description: "You're now editing the copy; the original is unchanged.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Duplicate failed",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: UpdateGenerationRequest }) => {
+      const response = await apiRequest("PATCH", `/api/generations/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: (data: Generation) => {
+      setCurrentGeneration(prev => prev?.id === data.id ? { ...prev, title: data.title, tags: data.tags, starred: data.starred } : prev);
+      queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   useEffect(() => {
     if (generateMutation.isPending) {
-      setProgress(0);
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev >= 90) return prev;
-          return prev + Math.random() * 15;
-        });
-      }, 500);
-      return () => clearInterval(interval);
+      // Completed files drive progress; received tokens fill the gap up to the next file
+      const fileShare = 90 / EXPECTED_FILE_COUNT;
+      const fileProgress = Math.min(files.length, EXPECTED_FILE_COUNT) * fileShare;
+      const tokenProgress = Math.min(fileProgress + fileShare - 1, (streamedChars / EXPECTED_OUTPUT_CHARS) * 90);
+      setProgress(prev => Math.min(90, Math.max(prev, fileProgress, tokenProgress)));
     } else {
       setProgress(100);
     }
-  }, [generateMutation.isPending]);
+  }, [generateMutation.isPending, streamedChars, files.length]);
 
   const handleGenerate = useCallback(() => {
     if (prompt.trim().length < 10) {
@@ -202,8 +453,26 @@ export default function Home() {
       });
       return;
     }
-    generateMutation.mutate(prompt);
-  }, [prompt, generateMutation, toast]);
+    flushPendingSave();
+    generateMutation.mutate({ ...advancedSettings, prompt });
+  }, [prompt, advancedSettings, generateMutation, toast, flushPendingSave]);
+
+  const handleCancelGeneration = useCallback(() => {
+    if (!jobId) return;
+    cancelJob(jobId).catch((error: any) => {
+      toast({
+        title: "Cancel failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    });
+  }, [jobId, toast]);
+
+  // Reconnect to a generation that was still running when the page was reloaded
+  useEffect(() => {
+    const activeJobId = getActiveJobId();
+    if (activeJobId) generateMutation.mutate({ jobId: activeJobId });
+  }, []);
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -246,6 +515,8 @@ h1 {
     const templateJs = `// Add your JavaScript here
 console.log('Hello from manual editor!');`;
 
+    flushPendingSave();
+
     const manualFiles: ProjectFile[] = [
       { name: 'html/index.html', type: 'html', content: templateHtml },
       { name: 'css/style.css', type: 'css', content: templateCss },
@@ -253,11 +524,7 @@ console.log('Hello from manual editor!');`;
     ];
 
     setPrompt("Manual Coding Session");
-    setFiles(manualFiles.map(f => ({
-      ...f,
-      content: formatCode(f.content, f.type)
-    })));
-    setActiveFile(manualFiles[0]); // Don't format here, content already formatted above
+    showFiles(manualFiles);
     setCurrentHtml(templateHtml);
 
     // Auto switch to code view on mobile
@@ -275,14 +542,23 @@ console.log('Hello from manual editor!');`;
       files: JSON.stringify(manualFiles),
       createdAt: new Date()
     } as Generation);
-  }, []);
+  }, [flushPendingSave, showFiles]);
 
-  const handleDownloadZip = useCallback(() => {
+  const handleDownloadZip = useCallback(async (minify: boolean) => {
     if (!currentGeneration) return;
 
+    // The ZIP is built from the saved files, so save pending edits first
+    if (isDirty && canSave) {
+      try {
+        await saveFilesMutation.mutateAsync({ id: currentGeneration.id, files, revision: editRevision.current });
+      } catch (e) {
+        return;
+      }
+    }
+
     // Create a link to trigger download
     const link = document.createElement('a');
-    link.href = `/api/download/${currentGeneration.id}`;
+    link.href = `/api/download/${currentGeneration.id}${minify ? '?minify=true' : ''}`;
     link.download = `website-${currentGeneration.id}.zip`;
     document.body.appendChild(link);
     link.click();
@@ -292,9 +568,10 @@ console.log('Hello from manual editor!');`;
       title: "Downloading...",
       description: "Your website is being downloaded as a ZIP file.",
     });
-  }, [currentGeneration, toast]);
+  }, [currentGeneration, toast, isDirty, canSave, files, saveFilesMutation]);
 
   const handleLoadGeneration = useCallback((generation: Generation) => {
+    flushPendingSave();
     setPrompt(generation.prompt);
     setCurrentHtml(generation.generatedHtml);
     setCurrentGeneration(generation);
@@ -320,34 +597,103 @@ console.log('Hello from manual editor!');`;
       ];
     }
 
-    setFiles(projectFiles.map(f => ({
-      ...f,
-      content: formatCode(f.content, f.type)
-    })));
-    setActiveFile(prev => {
-      const found = projectFiles.find(f => f.name === 'html/index.html' || f.name === 'index.html');
-      return found ? { ...found, content: formatCode(found.content, found.type) } : projectFiles[0];
-    });
+    showFiles(projectFiles);
 
     // On load, maybe stay on prompt or go to preview? Let's go to preview
     if (window.innerWidth < 768) {
       setMobileView('preview');
     }
-  }, []);
+  }, [flushPendingSave, showFiles]);
+
+  const refineMutation = useMutation({
+    mutationFn: async ({ id, instruction, files }: { id: string; instruction: string; files?: ProjectFile[] }) => {
+      // Refine what the user sees, not what was last autosaved
+      if (files) {
+        await apiRequest("PUT", `/api/generations/${id}/files`, { files });
+      }
+      const response = await apiRequest("POST", `/api/generations/${id}/refine`, { instruction });
+      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quota"] });
+    },
+    onSuccess: (data: Generation) => {
+      handleLoadGeneration(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
+      toast({
+        title: "Website updated!",
+        description: "Your change was applied as a new version in history.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: error.code === 'RATE_LIMIT' ? "⏱️ Rate Limit Reached" : "Refinement failed",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+        duration: error.waitTime ? (error.waitTime * 1000 + 2000) : 5000,
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ id, version }: { id: string; version: GenerationVersion }) => {
+      // Keep unsaved edits in the history instead of dropping them
+      if (isDirty) {
+        await saveFilesMutation.mutateAsync({ id, files, revision: editRevision.current });
+      }
+      const response = await apiRequest("POST", `/api/generations/${id}/versions/${version.id}/restore`);
+      return response.json();
+    },
+    onSuccess: (data: Generation) => {
+      handleLoadGeneration(data);
+      setShowVersions(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
+      toast({
+        title: "Version restored",
+        description: "The files before the restore are still in the version history.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore failed",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeDiagnostics = useMemo(
+    () => editorDiagnostics.filter(d => d.file === activeFile?.name),
+    [editorDiagnostics, activeFile?.name]
+  );
+
+  // The current generation and the chain of generations it was refined from, oldest first
+  const { data: lineage } = useQuery<Generation[]>({
+    queryKey: ["/api/generations", currentGeneration?.id, "lineage"],
+    enabled: canSave,
+  });
+
+  const handleRefine = useCallback((instruction: string) => {
+    if (!currentGeneration) return;
+    refineMutation.mutate({ id: currentGeneration.id, instruction, files: isDirty ? files : undefined });
+  }, [currentGeneration, refineMutation, isDirty, files]);
 
   const handleNewGeneration = useCallback(() => {
+    flushPendingSave();
     setPrompt("");
     setCurrentHtml(null);
     setCurrentGeneration(null);
+    formatRequest.current++;
     setFiles([]);
     setActiveFile(null);
     setMobileView('prompt');
-  }, []);
+  }, [flushPendingSave]);
 
   // File Operations
   const handleFileUpdate = (newContent: string) => {
     if (!activeFile) return;
 
+    markEdited();
     setFiles(prev => prev.map(f =>
       f.name === activeFile.name ? { ...f, content: newContent } : f
     ));
@@ -355,11 +701,13 @@ console.log('Hello from manual editor!');`;
   };
 
   const handleFileAdd = (newFile: ProjectFile) => {
+    markEdited();
     setFiles(prev => [...prev, newFile]);
     setActiveFile(newFile);
   };
 
   const handleFileDelete = (fileName: string) => {
+    markEdited();
     setFiles(prev => prev.filter(f => f.name !== fileName));
     if (activeFile?.name === fileName) {
       setActiveFile(files.find(f => f.name !== fileName) || null);
@@ -403,7 +751,8 @@ console.log('Hello from manual editor!');`;
       <script>
         document.addEventListener('click', (e) => {
           const link = e.target.closest('a');
-          if (link && link.getAttribute('href')) {
+          // In-page anchors scroll as usual; everything else is resolved by the editor
+          if (link && link.getAttribute('href') && !link.getAttribute('href').startsWith('#')) {
             e.preventDefault();
             const href = link.getAttribute('href');
             // Send navigation request to parent
@@ -439,14 +788,13 @@ ${jsContent}
       if (e.data?.type === 'NAVIGATE' && e.data?.href) {
         const href = e.data.href;
 
-        // Find file matching the href (simple resolution)
-        // Adjust this logic for folder support if needed (relative paths)
-        let targetName = href;
-
-        // Remove leading ./ or /
-        targetName = targetName.replace(/^(\.\/|\/)/, '');
+        // Resolve relative to the page currently shown in the preview
+        const currentPage = activeFile?.type === 'html' ? activeFile.name : 'index.html';
+        const targetName = resolveProjectPath(currentPage, href);
 
-        const targetFile = files.find(f => f.name === targetName);
+        // Links to folders (e.g. "about/") open their index page
+        const targetFile = files.find(f => f.name === targetName)
+          || files.find(f => f.name === `${targetName.replace(/\/$/, '')}/index.html`.replace(/^\//, ''));
 
         if (targetFile) {
           setActiveFile(targetFile);
@@ -470,12 +818,18 @@ ${jsContent}
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [files, toast]);
-
-  const truncatePrompt = (text: string, maxLength = 60) => {
-    if (text.length <= maxLength) return text;
-    return text.slice(0, maxLength) + "...";
-  };
+  }, [files, activeFile, toast]);
+
+  const historyPanel = (
+    <HistoryPanel
+      activeId={currentGeneration?.id}
+      onSelect={handleLoadGeneration}
+      onDuplicate={(id) => forkMutation.mutate(id)}
+      onDelete={(id) => deleteMutation.mutate(id)}
+      onUpdate={(id, changes) => updateMutation.mutateAsync({ id, changes })}
+      isDuplicating={forkMutation.isPending}
+    />
+  );
 
   // Device preview dimensions
   const getPreviewWidth = () => {
@@ -527,12 +881,20 @@ ${jsContent}
                   </Button>
                 ))}
               </div>
-              <Button variant="outline" size="sm" onClick={handleDownloadZip} className="hidden lg:flex">
-                <FileArchive className="w-4 h-4 md:mr-2" />
-                <span className="hidden xl:inline">ZIP</span>
-              </Button>
+              <DownloadMenu onDownload={handleDownloadZip}>
+                <Button variant="outline" size="sm" className="hidden lg:flex">
+                  <FileArchive className="w-4 h-4 md:mr-2" />
+                  <span className="hidden xl:inline">ZIP</span>
+                </Button>
+              </DownloadMenu>
             </>
           )}
+          <Button variant="outline" size="sm" asChild className="gap-2">
+            <Link href="/usage">
+              <BarChart3 className="w-4 h-4" />
+              <span className="hidden lg:inline">Usage</span>
+            </Link>
+          </Button>
           <Button variant="outline" size="sm" asChild className="gap-2">
             <Link href="/about">
               <User className="w-4 h-4" />
@@ -544,6 +906,17 @@ ${jsContent}
             <span className="hidden lg:inline">New</span>
           </Button>
           <ThemeToggle />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleLogout}
+            disabled={logoutMutation.isPending}
+            className="gap-2"
+            title={`Log out ${user?.username ?? ''}`}
+          >
+            <LogOut className="w-4 h-4" />
+            <span className="hidden lg:inline">{user?.username}</span>
+          </Button>
         </div>
 
         {/* Mobile Header Controls */}
@@ -575,9 +948,11 @@ ${jsContent}
             </Sheet>
           )}
           {currentHtml && mobileView === 'preview' && (
-            <Button variant="outline" size="sm" onClick={handleDownloadZip}>
-              <Download className="w-4 h-4" />
-            </Button>
+            <DownloadMenu onDownload={handleDownloadZip}>
+              <Button variant="outline" size="sm">
+                <Download className="w-4 h-4" />
+              </Button>
+            </DownloadMenu>
           )}
         </div>
       </header>
@@ -595,6 +970,9 @@ ${jsContent}
                 </Button>
               </div>
               <nav className="flex-1 overflow-y-auto p-4 flex flex-col gap-2">
+                <Button variant="ghost" className="w-full justify-start h-12 text-base" asChild onClick={() => setShowMobileMenu(false)}>
+                  <Link href="/usage"><BarChart3 className="w-5 h-5 mr-3" /> Usage</Link>
+                </Button>
                 <Button variant="ghost" className="w-full justify-start h-12 text-base" asChild onClick={() => setShowMobileMenu(false)}>
                   <Link href="/about"><User className="w-5 h-5 mr-3" /> About</Link>
                 </Button>
@@ -603,6 +981,10 @@ ${jsContent}
                   <span className="text-sm font-medium">Theme</span>
                   <ThemeToggle />
                 </div>
+                <div className="border-t my-2"></div>
+                <Button variant="ghost" className="w-full justify-start h-12 text-base" onClick={() => { setShowMobileMenu(false); handleLogout(); }}>
+                  <LogOut className="w-5 h-5 mr-3" /> Log out {user?.username}
+                </Button>
               </nav>
             </div>
           </div>
@@ -633,23 +1015,10 @@ ${jsContent}
                  Let's keep it simple: History list takes space, Input fixed at bottom on mobile.
                */}
 
-              {/* Mobile History List (If exists) */}
-              {generations.length > 0 && (
-                <div className="flex-1 overflow-y-auto mb-32 md:mb-0">
-                  <div className="text-sm font-medium text-muted-foreground mb-2 px-1">History</div>
-                  {generations.map((g) => (
-                    <Card key={g.id} className="p-3 mb-2 cursor-pointer hover:shadow-md bg-card/50" onClick={() => handleLoadGeneration(g)}>
-                      <div className="flex justify-between gap-2">
-                        <div className="truncate text-sm font-medium">{truncatePrompt(g.prompt)}</div>
-                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={(e) => { e.stopPropagation(); deleteMutation.mutate(g.id); }}>
-                          <Trash2 className="w-3 h-3" />
-                        </Button>
-                      </div>
-                      <div className="mt-1 text-xs text-muted-foreground">{format(new Date(g.createdAt), "MMM d, h:mm a")}</div>
-                    </Card>
-                  ))}
-                </div>
-              )}
+              {/* Mobile History List */}
+              <div className="flex flex-col flex-1 min-h-0 mb-32 -mx-4 -mt-4 md:hidden">
+                {historyPanel}
+              </div>
 
               {/* Prompt Input - Fixed bottom on mobile, normal on desktop */}
               <div className={`
@@ -673,9 +1042,28 @@ ${jsContent}
                     ))}
                   </div>
                 )}
+                {modelOptions && (
+                  <AdvancedOptions
+                    options={modelOptions}
+                    value={advancedSettings}
+                    onChange={setAdvancedSettings}
+                    disabled={generateMutation.isPending}
+                  />
+                )}
                 <Button size="lg" className="w-full" onClick={handleGenerate} disabled={generateMutation.isPending || prompt.trim().length < 10}>
-                  {generateMutation.isPending ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Generating...</> : <><Sparkles className="w-4 h-4 mr-2" /> Generate Website</>}
+                  {generateMutation.isPending ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> {repairRound > 0 ? `Fixing problems (round ${repairRound})...` : continuationRound > 0 ? `Continuing (round ${continuationRound})...` : 'Generating...'}</> : <><Sparkles className="w-4 h-4 mr-2" /> Generate Website</>}
                 </Button>
+                {generateMutation.isPending && jobId && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={handleCancelGeneration}>
+                    <X className="w-4 h-4 mr-2" /> Cancel
+                  </Button>
+                )}
+                {quota && (
+                  <p className={`text-xs text-center ${quota.day.remaining === 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {quota.day.remaining} of {quota.day.limit} requests left today
+                    {quota.minute.remaining === 0 && ` · next in ${quota.minute.resetInSeconds}s`}
+                  </p>
+                )}
 
                 {/* Manual Start Button for Mobile Prompt View */}
                 {!currentHtml && (
@@ -688,25 +1076,7 @@ ${jsContent}
 
             {/* Desktop History List */}
             <div className="hidden md:flex flex-1 overflow-hidden flex-col">
-              <div className="flex items-center gap-2 px-4 py-3 border-b bg-background">
-                <History className="w-4 h-4 text-muted-foreground" />
-                <span className="text-sm font-medium">History</span>
-              </div>
-              <ScrollArea className="flex-1">
-                <div className="flex flex-col p-3 gap-2">
-                  {generations.map((g) => (
-                    <Card key={g.id} className="p-3 cursor-pointer hover:shadow-md" onClick={() => handleLoadGeneration(g)}>
-                      <div className="flex justify-between gap-2">
-                        <div className="truncate text-sm font-medium">{truncatePrompt(g.prompt)}</div>
-                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={(e) => { e.stopPropagation(); deleteMutation.mutate(g.id); }}>
-                          <Trash2 className="w-3 h-3" />
-                        </Button>
-                      </div>
-                      <div className="mt-1 text-xs text-muted-foreground">{format(new Date(g.createdAt), "MMM d, h:mm a")}</div>
-                    </Card>
-                  ))}
-                </div>
-              </ScrollArea>
+              {historyPanel}
             </div>
           </div>
         )}
@@ -717,10 +1087,15 @@ ${jsContent}
             <div className="absolute top-0 left-0 right-0 z-50"><Progress value={progress} className="h-1 rounded-none" /></div>
           )}
 
-          {generateMutation.isPending ? (
+          {generateMutation.isPending && files.length === 0 ? (
             <div className="flex flex-col items-center justify-center flex-1 gap-4">
               <Loader2 className="w-16 h-16 animate-spin text-primary" />
               <p className="text-lg font-medium">Generating your website...</p>
+              {streamedChars > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Received {(streamedChars / 1024).toFixed(1)} KB of code
+                </p>
+              )}
             </div>
           ) : currentHtml ? (
             <div className="flex flex-col lg:flex-row h-full">
@@ -750,13 +1125,40 @@ ${jsContent}
                       {isExplorerOpen ? <PanelLeftClose className="w-4 h-4" /> : <PanelLeftOpen className="w-4 h-4" />}
                     </Button>
                     <span className="text-sm font-medium truncate">{activeFile?.name || 'No file selected'}</span>
+                    {canSave && (
+                      <Button variant="ghost" size="sm" className="ml-auto h-7 px-2 text-xs" onClick={() => setShowVersions(true)}>
+                        <History className="w-3 h-3 mr-1" /> Versions
+                      </Button>
+                    )}
+                    {canSave && (
+                      <span className="flex items-center gap-1 pr-2 text-xs text-muted-foreground shrink-0">
+                        {saveFilesMutation.isPending ? (
+                          <><Loader2 className="w-3 h-3 animate-spin" /> Saving...</>
+                        ) : isDirty ? (
+                          <><Circle className="w-2 h-2 fill-current" /> Unsaved changes</>
+                        ) : (
+                          <><Check className="w-3 h-3" /> Saved</>
+                        )}
+                      </span>
+                    )}
                   </div>
                   <div className="flex-1 relative">
                     <CodeEditor
                       activeFile={activeFile}
+                      diagnostics={activeDiagnostics}
                       onContentChange={handleFileUpdate}
                     />
                   </div>
+                  {canSave && currentGeneration && (
+                    <VersionHistory
+                      generationId={currentGeneration.id}
+                      currentFiles={files}
+                      open={showVersions}
+                      onOpenChange={setShowVersions}
+                      isRestoring={restoreMutation.isPending}
+                      onRestore={(version) => restoreMutation.mutate({ id: currentGeneration.id, version })}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -788,6 +1190,13 @@ ${jsContent}
                     />
                   </div>
                 </div>
+                {currentGeneration && !currentGeneration.id.startsWith('manual-') && (
+                  <RefinePanel
+                    lineage={lineage ?? (currentGeneration ? [currentGeneration] : [])}
+                    isPending={refineMutation.isPending}
+                    onRefine={handleRefine}
+                  />
+                )}
               </div>
 
             </div>
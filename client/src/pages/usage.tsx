@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Code2 } from "lucide-react";
+import type { UsageBucket, UsageSummary } from "@shared/schema";
+
+const PERIODS = [7, 30, 90];
+
+const chartConfig = {
+  promptTokens: { label: "Prompt tokens", color: "hsl(var(--chart-1))" },
+  completionTokens: { label: "Completion tokens", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function formatLatency(ms: number | null): string {
+  return ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function StatCard({ title, value, detail }: { title: string; value: string; detail?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {detail && <CardContent className="text-xs text-muted-foreground">{detail}</CardContent>}
+    </Card>
+  );
+}
+
+function UsageTable({ label, rows }: { label: string; rows: UsageBucket[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Generations</TableHead>
+          <TableHead className="text-right">Prompt tokens</TableHead>
+          <TableHead className="text-right">Completion tokens</TableHead>
+          <TableHead className="text-right">Avg. latency</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.key}</TableCell>
+            <TableCell className="text-right">{row.generations}</TableCell>
+            <TableCell className="text-right">{row.promptTokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{row.completionTokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{formatLatency(row.averageLatencyMs)}</TableCell>
+            <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Usage() {
+  const [days, setDays] = useState(30);
+  const { data: usage, isLoading } = useQuery<UsageSummary>({
+    queryKey: [`/api/usage?days=${days}`],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between h-14 md:h-16">
+            <Button variant="ghost" size="sm" asChild className="gap-2">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4" />
+                <span className="hidden sm:inline">Back to Builder</span>
+                <span className="sm:hidden">Back</span>
+              </Link>
+            </Button>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-primary">
+                <Code2 className="w-4 h-4 text-primary-foreground" />
+              </div>
+              <span className="text-lg font-semibold">Usage</span>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+              <SelectTrigger className="w-32 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(period => (
+                  <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 flex flex-col gap-6">
+        {isLoading || !usage ? (
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            {[1, 2, 3, 4, 5].map(i => <Skeleton key={i} className="h-24" />)}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              <StatCard title="Generations" value={String(usage.totals.generations)} />
+              <StatCard
+                title="Tokens"
+                value={(usage.totals.promptTokens + usage.totals.completionTokens).toLocaleString()}
+                detail={`${usage.totals.promptTokens.toLocaleString()} prompt · ${usage.totals.completionTokens.toLocaleString()} completion`}
+              />
+              <StatCard title="Estimated cost" value={formatCost(usage.totals.costUsd)} detail="Models without a known price count as $0" />
+              <StatCard title="Average latency" value={formatLatency(usage.totals.averageLatencyMs)} />
+              <StatCard
+                title="Self-repair"
+                value={usage.repairs.attempted > 0 ? `${usage.repairs.improved} / ${usage.repairs.attempted}` : '—'}
+                detail={usage.repairs.attempted > 0
+                  ? `Repairs that reduced errors · ${usage.repairs.fixed} fixed every error`
+                  : 'No generation needed fixing'}
+              />
+            </div>
+
+            {usage.totals.generations === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No generations in this period yet.</p>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Tokens per day</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={chartConfig} className="h-64 w-full">
+                      <BarChart data={usage.byDay}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="key" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                        <YAxis tickLine={false} axisLine={false} width={48} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+                        <Bar dataKey="completionTokens" stackId="tokens" fill="var(--color-completionTokens)" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">By model</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <UsageTable label="Model" rows={usage.byModel} />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">By day</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <UsageTable label="Day (UTC)" rows={[...usage.byDay].reverse()} />
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
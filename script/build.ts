@@ -3,10 +3,10 @@ import { build as viteBuild } from "vite";
 import { rm, readFile } from "fs/promises";
 
 // server deps to bundle to reduce openat(2) syscalls
-// which helps cold start times
+// which helps cold start times. connect-pg-simple stays external: it reads
+// table.sql from its own directory to create the session table
 const allowlist = [
   "axios",
-  "connect-pg-simple",
   "cors",
   "date-fns",
   "drizzle-orm",
@@ -20,6 +20,8 @@ const allowlist = [
   "nanoid",
   "nodemailer",
   "openai",
+  // ESM-only, so the CJS bundle can't require() it on Node < 20.19
+  "parse5",
   "passport",
   "passport-local",
   "pg",
@@ -0,0 +1,117 @@
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import * as schema from "../shared/schema";
+
+// Boots the production bundle against Postgres and signs a user up, to catch
+// what only breaks once the server is bundled (files or ESM-only packages it
+// loads at runtime). Run `npm run build` first.
+
+// drizzle-kit's ESM build can't load its own CommonJS dependencies, so take the CJS one
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+const DB_PORT = 55432;
+const APP_PORT = 55000;
+const STARTUP_TIMEOUT_MS = 30_000;
+// Above pg.Pool's default size, so the app never waits for a connection
+const MAX_DB_CONNECTIONS = 20;
+
+async function startDatabase() {
+  const db = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await db.exec(statement);
+  }
+  const server = new PGLiteSocketServer({ db, port: DB_PORT, maxConnections: MAX_DB_CONNECTIONS });
+  await server.start();
+  return { db, server };
+}
+
+function startApp(databaseUrl: string) {
+  const app = spawn(process.execPath, ["dist/index.cjs"], {
+    env: {
+      ...process.env,
+      NODE_ENV: "production",
+      PORT: String(APP_PORT),
+      DATABASE_URL: databaseUrl,
+      SESSION_SECRET: "check-dist",
+      LLM_PROVIDER: "fake",
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  let output = "";
+  const ready = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Server didn't start:\n${output}`)), STARTUP_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk;
+      if (output.includes(`serving on port ${APP_PORT}`)) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    app.stdout.on("data", onData);
+    app.stderr.on("data", onData);
+    app.on("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with code ${code}:\n${output}`));
+    });
+  });
+  return { app, ready, output: () => output };
+}
+
+async function request(path: string, init: RequestInit = {}) {
+  return fetch(`http://127.0.0.1:${APP_PORT}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      // The session cookie is secure in production; the proxy in front normally says this
+      "X-Forwarded-Proto": "https",
+      ...init.headers,
+    },
+  });
+}
+
+async function check() {
+  if (!existsSync("dist/index.cjs")) {
+    throw new Error("dist/index.cjs is missing; run `npm run build` first");
+  }
+
+  const { db, server } = await startDatabase();
+  const { app, ready, output } = startApp(`postgres://postgres@127.0.0.1:${DB_PORT}/postgres?sslmode=disable`);
+  try {
+    await ready;
+
+    const username = `check-${Date.now()}`;
+    const registered = await request("/api/register", {
+      method: "POST",
+      body: JSON.stringify({ username, password: "check-dist-password" }),
+    });
+    if (registered.status !== 201) {
+      throw new Error(`Register failed with ${registered.status}: ${await registered.text()}\n${output()}`);
+    }
+    const cookie = registered.headers.get("set-cookie")?.split(";")[0];
+    if (!cookie) throw new Error("Register didn't start a session");
+
+    const user = await request("/api/user", { headers: { Cookie: cookie } });
+    const body = await user.json().catch(() => null);
+    if (user.status !== 200 || body?.username !== username) {
+      throw new Error(`Session lookup failed with ${user.status}: ${JSON.stringify(body)}\n${output()}`);
+    }
+
+    const sessions = await db.query<{ count: number }>("SELECT count(*)::int AS count FROM session");
+    if (sessions.rows[0].count < 1) throw new Error("No session was stored in Postgres");
+
+    console.log("dist/index.cjs served a signed-in request against Postgres");
+  } finally {
+    app.kill();
+    await server.stop();
+    await db.close();
+  }
+}
+
+check().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
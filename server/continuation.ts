@@ -0,0 +1,160 @@
+import type { CompletionRequest, CompletionResult, LlmProvider } from "./llm";
+import { isCompleteResponse, isTruncatedResponse } from "./response-parser";
+import { addUsage, type TokenUsage } from "./usage";
+
+const CONTINUE_PROMPT = `Your previous reply was cut off. Continue it from the exact character where it stopped.
+- Do NOT repeat anything you already wrote and do NOT restart the JSON.
+- No markdown, no code fences, no commentary: only the remaining raw text.`;
+
+// Models sometimes repeat the tail of the previous reply; trim overlaps up to this long
+const MAX_OVERLAP = 200;
+// Shorter matches are too likely to be legitimately repeated markup or CSS
+const MIN_OVERLAP = 64;
+// How much of a streamed round to hold back before trimming a fence or overlap
+const STREAM_HEAD_LENGTH = MAX_OVERLAP + 32;
+
+export type ContinuationResult = {
+  content: string;
+  // Continuation requests issued after the first reply
+  rounds: number;
+  finishReason?: string;
+  // Summed over all rounds that reported it
+  usage?: TokenUsage;
+};
+
+// "length" means the reply hit maxTokens; without it, only an unfinished JSON object counts
+export function needsContinuation(text: string, finishReason?: string): boolean {
+  if (finishReason === "length") {
+    return !isCompleteResponse(text);
+  }
+  return isTruncatedResponse(text);
+}
+
+// Join a continuation onto the partial reply, dropping a leading fence or repeated tail
+export function appendContinuation(partial: string, continuation: string): string {
+  const next = continuation.replace(/^\s*```[\w-]*\n/, "");
+  for (let length = Math.min(MAX_OVERLAP, partial.length, next.length); length >= MIN_OVERLAP; length--) {
+    if (partial.endsWith(next.slice(0, length))) {
+      return partial + next.slice(length);
+    }
+  }
+  return partial + next;
+}
+
+function continuationRequest(request: CompletionRequest, partial: string): CompletionRequest {
+  return {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: "assistant", content: partial },
+      { role: "user", content: CONTINUE_PROMPT },
+    ],
+  };
+}
+
+// A failed continuation still leaves a partial reply the parser may be able to
+// repair, so only a cancelled request is treated as fatal
+function handleRoundError(error: any, request: CompletionRequest) {
+  if (request.signal?.aborted) throw error;
+  console.warn("[CONTINUATION] Continuation request failed, keeping partial output:", error?.message);
+}
+
+/**
+ * Complete a request, asking the model to carry on for up to `maxRounds` more
+ * requests while its output is cut off.
+ */
+export async function completeWithContinuation(
+  complete: (request: CompletionRequest) => Promise<CompletionResult>,
+  request: CompletionRequest,
+  maxRounds: number,
+): Promise<ContinuationResult> {
+  const first = await complete(request);
+  let content = first.content;
+  let finishReason = first.finishReason;
+  let usage = first.usage;
+  let rounds = 0;
+
+  while (rounds < maxRounds && needsContinuation(content, finishReason)) {
+    rounds++;
+    console.log(`[CONTINUATION] Output truncated, requesting round ${rounds}/${maxRounds}`);
+    try {
+      const next = await complete(continuationRequest(request, content));
+      content = appendContinuation(content, next.content);
+      finishReason = next.finishReason;
+      usage = addUsage(usage, next.usage);
+    } catch (error) {
+      handleRoundError(error, request);
+      break;
+    }
+  }
+
+  return { content, rounds, finishReason, usage };
+}
+
+/**
+ * Streaming counterpart of completeWithContinuation: yields the reply's tokens
+ * followed by those of each continuation round, then returns the joined text.
+ */
+export async function* streamWithContinuation(
+  llm: LlmProvider,
+  request: CompletionRequest,
+  maxRounds: number,
+  onRound?: (round: number) => void,
+): AsyncGenerator<string, ContinuationResult> {
+  let content = "";
+  let rounds = 0;
+
+  const tokens = llm.stream(request);
+  let step = await tokens.next();
+  while (!step.done) {
+    content += step.value;
+    yield step.value;
+    step = await tokens.next();
+  }
+  let { finishReason, usage } = step.value;
+
+  // Append text to the reply, returning the part that is actually new
+  const release = (text: string) => {
+    const joined = appendContinuation(content, text);
+    const added = joined.slice(content.length);
+    content = joined;
+    return added;
+  };
+
+  while (rounds < maxRounds && needsContinuation(content, finishReason)) {
+    rounds++;
+    console.log(`[CONTINUATION] Output truncated, requesting round ${rounds}/${maxRounds}`);
+    onRound?.(rounds);
+
+    let head: string | null = "";
+    let failed = false;
+    try {
+      const more = llm.stream(continuationRequest(request, content));
+      let next = await more.next();
+      while (!next.done) {
+        if (head === null) {
+          content += next.value;
+          yield next.value;
+        } else if ((head += next.value).length >= STREAM_HEAD_LENGTH) {
+          const added = release(head);
+          head = null;
+          if (added) yield added;
+        }
+        next = await more.next();
+      }
+      finishReason = next.value.finishReason;
+      usage = addUsage(usage, next.value.usage);
+    } catch (error) {
+      handleRoundError(error, request);
+      failed = true;
+    }
+
+    if (head) {
+      const added = release(head);
+      if (added) yield added;
+    }
+    if (failed) break;
+  }
+
+  return { content, rounds, finishReason, usage };
+}
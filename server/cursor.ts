@@ -0,0 +1,17 @@
+import type { GenerationCursor } from "./storage";
+
+// Opaque to clients: base64url of [createdAt ISO string, id]
+export function encodeCursor(cursor: GenerationCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt.toISOString(), cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(value: string): GenerationCursor | undefined {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const date = new Date(createdAt);
+    if (typeof id !== "string" || isNaN(date.getTime())) return undefined;
+    return { createdAt: date, id };
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,16 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+// Any drizzle Postgres database built with our schema. node-postgres is used
+// in production, but other drivers (e.g. drizzle-orm/pglite) plug in the same way.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string): pg.Pool {
+  return new pg.Pool({ connectionString });
+}
+
+export function createDb(pool: pg.Pool): Database {
+  return drizzle(pool, { schema });
+}
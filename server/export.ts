@@ -0,0 +1,229 @@
+import path from "path";
+import { createHash } from "crypto";
+import CleanCSS from "clean-css";
+import { minify as minifyHtml } from "html-minifier-terser";
+import { minify as minifyJs } from "terser";
+import type { Generation, ProjectFile } from "@shared/schema";
+
+export type ExportManifest = {
+  generator: string;
+  id: string;
+  prompt: string;
+  createdAt: string;
+  exportedAt: string;
+  entry: string | null;
+  files: { path: string; type: ProjectFile["type"]; size: number }[];
+  // Present when the export includes a production build next to the source;
+  // the paths in files are then relative to sourceDir
+  sourceDir?: string;
+  bundle?: {
+    dir: string;
+    entry: string | null;
+    files: { path: string; source: string; size: number }[];
+    // Files shipped unminified because the minifier couldn't parse them
+    warnings: string[];
+  };
+};
+
+// A minified bundle file and the source file it was built from
+export type BundleFile = ProjectFile & { source: string };
+
+// Where the readable source and the production build go when an export includes both
+export const SOURCE_DIR = "src";
+export const BUNDLE_DIR = "dist";
+
+const HASH_LENGTH = 8;
+
+const EXTERNAL_URL = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+const STYLESHEET_LINK = /<link\b[^>]*\brel=["']?stylesheet["']?[^>]*>\s*/gi;
+const SCRIPT_WITH_SRC = /<script\b[^>]*\bsrc=["']([^"']+)["'][^>]*>\s*<\/script>\s*/gi;
+
+// Normalise a project file name into a safe relative path inside the archive
+export function toArchivePath(name: string): string | null {
+  const normalized = path.posix.normalize(name.replace(/\\/g, "/")).replace(/^(\.\/|\/)+/, "");
+  if (!normalized || normalized === "." || normalized.split("/").includes("..")) {
+    return null;
+  }
+  return normalized;
+}
+
+function hrefOf(tag: string): string | undefined {
+  return tag.match(/\bhref=["']([^"']+)["']/i)?.[1];
+}
+
+// Drop tags pointing at local assets; every project asset is re-linked below
+function stripLocalAssetTags(html: string): string {
+  return html
+    .replace(STYLESHEET_LINK, (tag) => {
+      const href = hrefOf(tag);
+      return href && !EXTERNAL_URL.test(href) ? "" : tag;
+    })
+    .replace(SCRIPT_WITH_SRC, (tag, src: string) => (EXTERNAL_URL.test(src) ? tag : ""));
+}
+
+function linkAssets(htmlPath: string, html: string, cssPaths: string[], jsPaths: string[]): string {
+  const dir = path.posix.dirname(htmlPath);
+  const relative = (target: string) => path.posix.relative(dir, target);
+
+  const links = cssPaths.map((p) => `  <link rel="stylesheet" href="${relative(p)}">`).join("\n");
+  const scripts = jsPaths.map((p) => `  <script src="${relative(p)}"></script>`).join("\n");
+  const content = stripLocalAssetTags(html);
+
+  // Model output is usually a body fragment; wrap it in a full document
+  if (!/<html[\s>]/i.test(content)) {
+    const bodyMatch = content.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+    const body = (bodyMatch ? bodyMatch[1] : content).trim();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Generated Website</title>
+${links}
+</head>
+<body>
+${body}
+${scripts}
+</body>
+</html>`;
+  }
+
+  let document = content;
+  if (links) {
+    document = /<\/head>/i.test(document)
+      ? document.replace(/<\/head>/i, `${links}\n</head>`)
+      : document.replace(/<html[^>]*>/i, (tag) => `${tag}\n<head>\n${links}\n</head>`);
+  }
+  if (scripts) {
+    document = /<\/body>/i.test(document)
+      ? document.replace(/<\/body>/i, `${scripts}\n</body>`)
+      : `${document}\n${scripts}`;
+  }
+  return document;
+}
+
+/**
+ * Prepare a project for download: normalise paths (dropping unsafe or duplicate
+ * ones) and make every HTML page reference every stylesheet and script with a
+ * path relative to the page.
+ */
+export function prepareExportFiles(files: ProjectFile[]): ProjectFile[] {
+  const byPath = new Map<string, ProjectFile>();
+  for (const file of files) {
+    const archivePath = toArchivePath(file.name);
+    if (archivePath) {
+      byPath.set(archivePath, { ...file, name: archivePath });
+    }
+  }
+
+  const prepared = Array.from(byPath.values());
+  const cssPaths = prepared.filter((f) => f.type === "css").map((f) => f.name);
+  const jsPaths = prepared.filter((f) => f.type === "js").map((f) => f.name);
+
+  return prepared.map((file) =>
+    file.type === "html"
+      ? { ...file, content: linkAssets(file.name, file.content, cssPaths, jsPaths) }
+      : file,
+  );
+}
+
+async function minifyContent(file: ProjectFile): Promise<string> {
+  switch (file.type) {
+    case "css": {
+      const result = new CleanCSS({ level: 1 }).minify(file.content);
+      if (result.errors.length > 0) throw new Error(result.errors[0]);
+      return result.styles;
+    }
+    case "js": {
+      const result = await minifyJs(file.content, { compress: true, mangle: true });
+      return result.code ?? "";
+    }
+    case "html":
+      return minifyHtml(file.content, {
+        collapseWhitespace: true,
+        conservativeCollapse: true,
+        removeComments: true,
+        minifyCSS: true,
+        minifyJS: true,
+      });
+  }
+}
+
+// "css/style.css" -> "css/style.1a2b3c4d.css", so deployed assets can be cached forever
+function hashedPath(name: string, content: string): string {
+  const hash = createHash("sha256").update(content).digest("hex").slice(0, HASH_LENGTH);
+  const ext = path.posix.extname(name);
+  return `${name.slice(0, name.length - ext.length)}.${hash}${ext}`;
+}
+
+/**
+ * Build a production bundle from prepared export files: minify everything,
+ * give stylesheets and scripts content-hashed names and point every page at
+ * the renamed assets. A file the minifier can't parse is shipped as-is and
+ * reported in warnings rather than failing the whole export.
+ */
+export async function buildBundle(files: ProjectFile[]): Promise<{ files: BundleFile[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  const minify = async (file: ProjectFile) => {
+    try {
+      return await minifyContent(file);
+    } catch (error: any) {
+      warnings.push(`${file.name}: ${error?.message ?? "could not be minified"}`);
+      return file.content;
+    }
+  };
+
+  const assets: BundleFile[] = [];
+  for (const file of files.filter((f) => f.type !== "html")) {
+    const content = await minify(file);
+    assets.push({ ...file, name: hashedPath(file.name, content), content, source: file.name });
+  }
+
+  const cssPaths = assets.filter((f) => f.type === "css").map((f) => f.name);
+  const jsPaths = assets.filter((f) => f.type === "js").map((f) => f.name);
+  const pages: BundleFile[] = [];
+  for (const file of files.filter((f) => f.type === "html")) {
+    const linked = { ...file, content: linkAssets(file.name, file.content, cssPaths, jsPaths) };
+    pages.push({ ...linked, content: await minify(linked), source: file.name });
+  }
+
+  return { files: [...pages, ...assets], warnings };
+}
+
+function entryOf(files: ProjectFile[]): string | null {
+  const htmlFiles = files.filter((f) => f.type === "html").map((f) => f.name);
+  return htmlFiles.find((name) => path.posix.basename(name) === "index.html") ?? htmlFiles[0] ?? null;
+}
+
+export function buildManifest(
+  generation: Generation,
+  files: ProjectFile[],
+  bundle?: { files: BundleFile[]; warnings: string[] },
+): ExportManifest {
+  return {
+    generator: "Teclanc.AI",
+    id: generation.id,
+    prompt: generation.prompt,
+    createdAt: new Date(generation.createdAt).toISOString(),
+    exportedAt: new Date().toISOString(),
+    entry: entryOf(files),
+    files: files.map((f) => ({
+      path: f.name,
+      type: f.type,
+      size: Buffer.byteLength(f.content, "utf8"),
+    })),
+    ...(bundle && {
+      sourceDir: SOURCE_DIR,
+      bundle: {
+        dir: BUNDLE_DIR,
+        entry: entryOf(bundle.files),
+        files: bundle.files.map((f) => ({
+          path: f.name,
+          source: f.source,
+          size: Buffer.byteLength(f.content, "utf8"),
+        })),
+        warnings: bundle.warnings,
+      },
+    }),
+  };
+}
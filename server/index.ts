@@ -16,6 +16,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Saved projects send every file in one request
+    limit: "5mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -24,6 +26,8 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
+const MAX_LOG_LINE_LENGTH = 300;
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -53,6 +57,10 @@ app.use((req, res, next) => {
       if (capturedJsonResponse) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
+      // Responses can carry every file of a project; the start is enough to go by
+      if (logLine.length > MAX_LOG_LINE_LENGTH) {
+        logLine = logLine.slice(0, MAX_LOG_LINE_LENGTH - 1) + "…";
+      }
 
       log(logLine);
     }
@@ -0,0 +1,84 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Generation, GenerationJob } from "@shared/schema";
+import { JobQueue, type JobRunner } from "./jobs";
+
+const describeError = (error: any) => ({ error: error.message, code: "GENERATION_FAILED" });
+
+// A runner that waits for `release` before finishing, emitting a file on the way
+function gatedRunner() {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => { release = resolve; });
+  const runner: JobRunner = async (job, signal, emit) => {
+    emit("file", { name: "index.html", content: "<h1>Hi</h1>" });
+    await gate;
+    if (signal.aborted) throw new Error("aborted");
+    return { id: `generation-of-${job.id}` } as Generation;
+  };
+  return { runner, release: () => release() };
+}
+
+function record(queue: JobQueue, id: string) {
+  const events: { event: string; status?: string; position?: number }[] = [];
+  queue.subscribe(id, (event, data) => {
+    const job = data as GenerationJob;
+    events.push(event === "job" ? { event, status: job.status, position: job.position } : { event });
+  });
+  return events;
+}
+
+describe("JobQueue", () => {
+  test("sends status changes and runner events to subscribers", async () => {
+    const { runner, release } = gatedRunner();
+    const queue = new JobQueue(runner, { concurrency: 1, describeError });
+
+    const first = queue.submit("user", { prompt: "A bakery site" });
+    const second = queue.submit("user", { prompt: "A portfolio" });
+    const events = record(queue, second.id);
+    assert.equal(queue.get(second.id)?.position, 0);
+
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.equal(queue.get(first.id)?.status, "succeeded");
+    assert.equal(queue.get(second.id)?.generation?.id, `generation-of-${second.id}`);
+    assert.deepEqual(events, [
+      { event: "job", status: "running", position: 0 },
+      { event: "file" },
+      { event: "job", status: "succeeded", position: 0 },
+    ]);
+  });
+
+  test("tells waiting jobs when they move up the queue", () => {
+    const { runner } = gatedRunner();
+    const queue = new JobQueue(runner, { concurrency: 1, describeError });
+
+    queue.submit("user", { prompt: "First" });
+    const second = queue.submit("user", { prompt: "Second" });
+    const third = queue.submit("user", { prompt: "Third" });
+    const events = record(queue, third.id);
+    assert.equal(queue.get(third.id)?.position, 1);
+
+    queue.cancel(second.id);
+
+    assert.deepEqual(events, [{ event: "job", status: "queued", position: 0 }]);
+  });
+
+  test("stops sending events once unsubscribed or finished", async () => {
+    const { runner, release } = gatedRunner();
+    const queue = new JobQueue(runner, { concurrency: 1, describeError });
+    const job = queue.submit("user", { prompt: "A bakery site" });
+
+    const events: string[] = [];
+    const unsubscribe = queue.subscribe(job.id, (event) => events.push(event));
+    unsubscribe();
+    const kept = record(queue, job.id);
+
+    queue.cancel(job.id);
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.deepEqual(events, []);
+    assert.deepEqual(kept, [{ event: "job", status: "cancelled", position: 0 }]);
+  });
+});
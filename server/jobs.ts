@@ -0,0 +1,169 @@
+import { randomUUID } from "crypto";
+import type { GenerateRequest, Generation, GenerationJob } from "@shared/schema";
+
+// Finished jobs stay pollable for this long, so a reloaded page can still pick up the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Receives the events of one job, as sent by GET /api/jobs/:id/events
+export type JobListener = (event: string, data: unknown) => void;
+
+// `emit` forwards the runner's progress events to the job's listeners
+export type JobRunner = (job: GenerationJob, signal: AbortSignal, emit: JobListener) => Promise<Generation>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  // Turn a runner error into the {error, code} the client shows
+  describeError: (error: any) => { error: string; code: string };
+}
+
+export function jobConcurrencyFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  return Math.max(1, parseInt(env.JOB_CONCURRENCY || "2", 10) || 1);
+}
+
+export function isFinished(job: GenerationJob): boolean {
+  return job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+}
+
+/**
+ * In-process generation queue: jobs run on at most `concurrency` workers in
+ * submission order, independently of the HTTP request that created them.
+ */
+export class JobQueue {
+  private jobs = new Map<string, GenerationJob>();
+  private controllers = new Map<string, AbortController>();
+  private pending: string[] = [];
+  private running = 0;
+  private listeners = new Map<string, Set<JobListener>>();
+
+  constructor(private runner: JobRunner, private options: JobQueueOptions) {}
+
+  submit(userId: string, request: GenerateRequest): GenerationJob {
+    this.prune();
+
+    const job: GenerationJob = {
+      id: randomUUID(),
+      userId,
+      request,
+      status: "queued",
+      position: this.pending.length,
+      progress: { chars: 0, files: [], continuationRounds: 0, repairRound: 0 },
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    this.drain();
+    return job;
+  }
+
+  get(id: string): GenerationJob | undefined {
+    const job = this.jobs.get(id);
+    if (job?.status === "queued") {
+      job.position = this.pending.indexOf(id);
+    }
+    return job;
+  }
+
+  /**
+   * Follow a job: the listener gets a "job" event with the whole job whenever
+   * its status or queue position changes, and the runner's progress events in
+   * between. Listeners are dropped once the job finishes. Returns a function
+   * that stops listening.
+   */
+  subscribe(id: string, listener: JobListener): () => void {
+    const listeners = this.listeners.get(id) ?? new Set<JobListener>();
+    listeners.add(listener);
+    this.listeners.set(id, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(id) === listeners) this.listeners.delete(id);
+    };
+  }
+
+  // Drop a queued job or abort a running one; finished jobs are left as they are
+  cancel(id: string): GenerationJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job || isFinished(job)) return job;
+
+    const wasQueued = job.status === "queued";
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    this.controllers.get(id)?.abort();
+    this.finish(job, "cancelled");
+    if (wasQueued) this.emitQueuePositions();
+    return job;
+  }
+
+  private emit(id: string, event: string, data: unknown) {
+    for (const listener of Array.from(this.listeners.get(id) ?? [])) {
+      listener(event, data);
+    }
+  }
+
+  private emitStatus(job: GenerationJob) {
+    this.emit(job.id, "job", this.get(job.id));
+  }
+
+  private finish(job: GenerationJob, status: GenerationJob["status"]) {
+    job.status = status;
+    job.position = 0;
+    job.finishedAt = new Date();
+    this.emitStatus(job);
+    this.listeners.delete(job.id);
+  }
+
+  private drain() {
+    let started = false;
+    while (this.running < this.options.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job) {
+        void this.run(job);
+        started = true;
+      }
+    }
+    if (started) this.emitQueuePositions();
+  }
+
+  // Everything still waiting has moved up the queue
+  private emitQueuePositions() {
+    for (const id of this.pending) {
+      const job = this.jobs.get(id);
+      if (job) this.emitStatus(job);
+    }
+  }
+
+  private async run(job: GenerationJob) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.running++;
+    job.status = "running";
+    job.position = 0;
+    job.startedAt = new Date();
+    this.emitStatus(job);
+
+    try {
+      const generation = await this.runner(job, controller.signal, (event, data) => this.emit(job.id, event, data));
+      if (job.status === "running") {
+        job.generation = generation;
+        this.finish(job, "succeeded");
+      }
+    } catch (error: any) {
+      if (job.status === "running") {
+        console.error(`Job ${job.id} failed:`, error);
+        job.error = this.options.describeError(error);
+        this.finish(job, "failed");
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of Array.from(this.jobs)) {
+      if (isFinished(job) && job.finishedAt!.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import { readChatStream } from "./sse";
+import { parseUsage, type TokenUsage } from "./usage";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  // "stop", or "length" when the reply hit maxTokens
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+// What a stream reports after its last token
+export interface StreamEnd {
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields content deltas, then returns the finish reason and usage if the provider sent them
+  stream(request: CompletionRequest): AsyncGenerator<string, StreamEnd>;
+}
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  headers?: Record<string, string>;
+  // Extra provider-specific fields for the request body
+  body?: Record<string, unknown>;
+  // Defaults to the global fetch; injectable for tests
+  fetch?: typeof fetch;
+}
+
+export function emptyResponseError() {
+  const error: any = new Error('Empty response from API');
+  error.code = 'EMPTY_RESPONSE';
+  return error;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Talks to any server exposing POST {baseUrl}/chat/completions
+// (OpenAI, OpenRouter, llama.cpp server, Ollama, vLLM, ...)
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.name = options.name || "openai-compatible";
+    this.defaultModel = options.defaultModel;
+  }
+
+  private async post(request: CompletionRequest, stream: boolean) {
+    const model = request.model || this.defaultModel;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.options.headers,
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    const response = await fetchImpl(`${this.options.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: request.messages,
+        ...this.options.body,
+        // Servers following OpenAI only report usage in streams when asked
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    // Handle HTTP errors
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const error: any = new Error(errorData.error?.message || `HTTP ${response.status}`);
+      error.status = response.status;
+      error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      throw error;
+    }
+
+    return { response, model };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { response, model } = await this.post(request, false);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw emptyResponseError();
+    }
+
+    return {
+      content,
+      model: data.model || model,
+      finishReason: data.choices?.[0]?.finish_reason,
+      usage: parseUsage(data.usage),
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string, StreamEnd> {
+    const { response } = await this.post(request, true);
+    if (!response.body) {
+      throw emptyResponseError();
+    }
+    return yield* readChatStream(response.body);
+  }
+}
+
+export const OPENROUTER_API_URL = "https://openrouter.ai/api/v1";
+
+// Use the officially recommended free model from memory
+// google/gemini-2.5-flash is confirmed to work with OpenRouter
+export const OPENROUTER_DEFAULT_MODEL = 'google/gemini-2.5-flash';
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string, defaultModel = OPENROUTER_DEFAULT_MODEL) {
+    super({
+      name: "openrouter",
+      baseUrl: OPENROUTER_API_URL,
+      apiKey,
+      defaultModel,
+      headers: {
+        'HTTP-Referer': 'https://teclanc.ai',
+        'X-Title': 'Teclanc AI Website Builder'
+      },
+      // Include token counts and the charged cost in every usage block
+      body: { usage: { include: true } },
+    });
+  }
+}
+
+const FAKE_SITE = JSON.stringify({
+  files: {
+    "index.html": '<header><h1>Fake Site</h1></header><main><p>Generated by the fake provider.</p><button id="btn">Click</button></main>',
+    "style.css": "body{font-family:system-ui,sans-serif;margin:0;padding:2rem}h1{color:#111827}",
+    "script.js": "document.getElementById('btn').addEventListener('click',()=>alert('Hello'));",
+  },
+});
+
+/**
+ * Deterministic provider for tests and offline development. Replies with the
+ * queued responses in order (repeating the last one), defaulting to a small
+ * three-file site.
+ */
+export class FakeProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly defaultModel = "fake-model";
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private responses: string[] = [FAKE_SITE], private chunkSize = 32) {}
+
+  private next(request: CompletionRequest) {
+    this.requests.push(request);
+    const index = Math.min(this.requests.length, this.responses.length) - 1;
+    return this.responses[index];
+  }
+
+  // Roughly four characters per token, so usage tracking has numbers to show offline
+  private usage(request: CompletionRequest, content: string): TokenUsage {
+    const promptChars = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+    return { promptTokens: Math.ceil(promptChars / 4), completionTokens: Math.ceil(content.length / 4) };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const content = this.next(request);
+    return {
+      content,
+      model: request.model || this.defaultModel,
+      finishReason: "stop",
+      usage: this.usage(request, content),
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string, StreamEnd> {
+    const content = this.next(request);
+    for (let i = 0; i < content.length; i += this.chunkSize) {
+      yield content.slice(i, i + this.chunkSize);
+    }
+    return { finishReason: "stop", usage: this.usage(request, content) };
+  }
+}
+
+// Pick the provider from the environment:
+//   LLM_PROVIDER=openrouter (default)  - needs OPENROUTER_API_KEY
+//   LLM_PROVIDER=openai-compatible     - needs LLM_BASE_URL, optional LLM_API_KEY
+//   LLM_PROVIDER=fake                  - canned responses, no network
+// LLM_MODEL overrides the provider's default model.
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const kind = env.LLM_PROVIDER || "openrouter";
+
+  switch (kind) {
+    case "openrouter":
+      // OpenRouter API Configuration
+      if (!env.OPENROUTER_API_KEY) {
+        throw new Error("OPENROUTER_API_KEY is missing. Check your .env file");
+      }
+      return new OpenRouterProvider(env.OPENROUTER_API_KEY, env.LLM_MODEL);
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        throw new Error("LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider");
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        defaultModel: env.LLM_MODEL,
+      });
+    case "fake":
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { isRetryableError } from "./retry";
+
+// Ordered models to try: LLM_MODELS="first/model,second/model", else just the provider's default
+export function modelChainFromEnv(defaultModel: string, env: NodeJS.ProcessEnv = process.env): string[] {
+  const models = (env.LLM_MODELS || "")
+    .split(",")
+    .map(model => model.trim())
+    .filter(Boolean);
+  return models.length > 0 ? Array.from(new Set(models)) : [defaultModel];
+}
+
+// The configured chain, with the caller's preferred model (if any) tried first
+export function resolveModelChain(chain: string[], preferred?: string | null): string[] {
+  if (!preferred || !chain.includes(preferred)) return chain;
+  return [preferred, ...chain.filter(model => model !== preferred)];
+}
+
+// Out of credits, rate limited, server errors and output we couldn't use are worth
+// another model; bad requests and auth failures would fail on every model alike
+export function shouldFallBack(error: any): boolean {
+  return Number(error?.status) === 402 || error?.code === "INVALID_FORMAT" || isRetryableError(error);
+}
+
+/**
+ * Run `attempt` with each model in turn until one succeeds, returning its
+ * result and the model that produced it. The last model's error is thrown.
+ */
+export async function withModelFallback<T>(
+  models: string[],
+  attempt: (model: string) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<{ result: T; model: string }> {
+  for (let i = 0; ; i++) {
+    const model = models[i];
+    try {
+      return { result: await attempt(model), model };
+    } catch (error: any) {
+      const next = models[i + 1];
+      if (!next || signal?.aborted || !shouldFallBack(error)) {
+        throw error;
+      }
+      console.warn(`[FALLBACK] ${model} failed (${error?.status ?? error?.code ?? error?.message}), trying ${next}`);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ProjectFile } from "@shared/schema";
+import { MAX_PROJECT_FILES, normalizeProjectPath, projectFilesError, toProjectFiles } from "./project-files";
+
+const html = (name: string): ProjectFile => ({ name, type: "html", content: "<h1>Hi</h1>" });
+
+describe("normalizeProjectPath", () => {
+  test("normalises relative paths", () => {
+    assert.equal(normalizeProjectPath("./css/theme.css"), "css/theme.css");
+    assert.equal(normalizeProjectPath("js\\app.js"), "js/app.js");
+    assert.equal(normalizeProjectPath(" about.html "), "about.html");
+  });
+
+  test("rejects paths outside the project or of unknown types", () => {
+    for (const name of ["../x.js", "css/../../x.css", "/etc/x.js", "C:/x.js", "a b.html", ".hidden.css", "a/b/c/d/e.js", "logo.png", ""]) {
+      assert.equal(normalizeProjectPath(name), null, name);
+    }
+  });
+});
+
+describe("toProjectFiles", () => {
+  test("types files by extension and drops invalid paths", () => {
+    assert.deepEqual(toProjectFiles({ "index.html": "<p>", "./css/a.css": "p{}", "../x.js": "x()" }), [
+      { name: "index.html", type: "html", content: "<p>" },
+      { name: "css/a.css", type: "css", content: "p{}" },
+    ]);
+  });
+});
+
+describe("projectFilesError", () => {
+  test("accepts files the generator could have produced", () => {
+    assert.equal(projectFilesError([
+      html("index.html"),
+      { name: "css/style.css", type: "css", content: "" },
+      { name: "js/app.js", type: "js", content: "" },
+    ]), null);
+  });
+
+  test("rejects paths the generator would reject", () => {
+    for (const name of ["../../x.html", "/abs.html", "./index.html", "a b.html", "x.php"]) {
+      assert.match(projectFilesError([html(name)]) ?? "", /Invalid file path/, name);
+    }
+  });
+
+  test("rejects a type that doesn't match the extension", () => {
+    assert.equal(
+      projectFilesError([{ name: "page.html", type: "css", content: "" }]),
+      '"page.html" is not a css file',
+    );
+  });
+
+  test("rejects duplicate paths", () => {
+    assert.equal(projectFilesError([html("index.html"), html("index.html")]), 'Duplicate file "index.html"');
+  });
+
+  test("caps the number of files", () => {
+    const files = Array.from({ length: MAX_PROJECT_FILES + 1 }, (_, i) => html(`page${i}.html`));
+    assert.match(projectFilesError(files) ?? "", /at most/);
+    assert.equal(projectFilesError(files.slice(1)), null);
+  });
+});
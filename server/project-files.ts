@@ -0,0 +1,99 @@
+import path from "path";
+import type { Generation, ProjectFile } from "@shared/schema";
+
+const MAX_PATH_LENGTH = 128;
+const MAX_PATH_DEPTH = 4;
+// Files a saved project may hold; generated sites have a handful
+export const MAX_PROJECT_FILES = 100;
+const SEGMENT = /^[A-Za-z0-9_][A-Za-z0-9._-]*$/;
+
+const TYPES_BY_EXTENSION: Record<string, ProjectFile["type"]> = {
+  ".html": "html",
+  ".htm": "html",
+  ".css": "css",
+  ".js": "js",
+};
+
+export function fileTypeFromPath(name: string): ProjectFile["type"] | undefined {
+  return TYPES_BY_EXTENSION[path.posix.extname(name).toLowerCase()];
+}
+
+/**
+ * Normalise a project file path ("./css/a.css" -> "css/a.css"). Returns null for
+ * anything that could escape the project folder or that we cannot serve:
+ * absolute paths, "..", odd characters, deep nesting or unknown extensions.
+ */
+export function normalizeProjectPath(name: string): string | null {
+  const normalized = path.posix.normalize(name.trim().replace(/\\/g, "/")).replace(/^(\.\/)+/, "");
+
+  if (!normalized || normalized.startsWith("/") || normalized.length > MAX_PATH_LENGTH) {
+    return null;
+  }
+
+  const segments = normalized.split("/");
+  if (segments.length > MAX_PATH_DEPTH || !segments.every((s) => SEGMENT.test(s))) {
+    return null;
+  }
+
+  return fileTypeFromPath(normalized) ? normalized : null;
+}
+
+// Build project files from a {path: content} map, dropping invalid paths
+export function toProjectFiles(files: Record<string, string>): ProjectFile[] {
+  const result = new Map<string, ProjectFile>();
+
+  for (const [name, content] of Object.entries(files)) {
+    const normalized = normalizeProjectPath(name);
+    if (!normalized || typeof content !== "string") {
+      console.warn(`[FILES] Skipping invalid file "${name}"`);
+      continue;
+    }
+    result.set(normalized, { name: normalized, type: fileTypeFromPath(normalized)!, content });
+  }
+
+  return Array.from(result.values());
+}
+
+/**
+ * Check files that come from a client rather than the model: every name must
+ * already be a normalised project path, typed by its extension and unique, so
+ * storage never holds a file the generator or the exporter would reject.
+ * Returns a message describing the first problem, or null.
+ */
+export function projectFilesError(files: ProjectFile[]): string | null {
+  if (files.length > MAX_PROJECT_FILES) {
+    return `A project can have at most ${MAX_PROJECT_FILES} files`;
+  }
+
+  const seen = new Set<string>();
+  for (const file of files) {
+    if (normalizeProjectPath(file.name) !== file.name) {
+      return `Invalid file path "${file.name}"`;
+    }
+    if (fileTypeFromPath(file.name) !== file.type) {
+      return `"${file.name}" is not a ${file.type} file`;
+    }
+    if (seen.has(file.name)) {
+      return `Duplicate file "${file.name}"`;
+    }
+    seen.add(file.name);
+  }
+  return null;
+}
+
+// Stored project files, rebuilt from the legacy html/css/js columns for old rows
+export function getProjectFiles(generation: Generation): ProjectFile[] {
+  try {
+    const files: ProjectFile[] = JSON.parse(generation.files || "[]");
+    if (files.length > 0) return files;
+  } catch (e) {
+    // Fall through to the legacy columns
+  }
+
+  const bodyMatch = generation.generatedHtml.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  return [
+    { name: 'index.html', type: 'html', content: bodyMatch ? bodyMatch[1].trim() : generation.generatedHtml },
+    { name: 'style.css', type: 'css', content: generation.generatedCss || '' },
+    { name: 'script.js', type: 'js', content: generation.generatedJs || '' }
+  ];
+}
@@ -0,0 +1,50 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { RateLimiter, rateLimitConfigFromEnv } from "./rate-limit";
+
+describe("RateLimiter", () => {
+  test("never lets concurrent requests past the per-minute limit", async () => {
+    const limiter = new RateLimiter(new MemStorage(), { maxRequestsPerMinute: 3, maxRequestsPerDay: 100 });
+
+    const checks = await Promise.all(Array.from({ length: 10 }, () => limiter.consume("user:burst")));
+
+    assert.equal(checks.filter((check) => check.allowed).length, 3);
+    const denied = checks.find((check) => !check.allowed)!;
+    assert.match(denied.reason!, /3 requests\/minute/);
+    assert.ok(denied.waitTime! >= 1 && denied.waitTime! <= 60);
+    assert.equal((await limiter.getQuota("user:burst")).minute.used, 3);
+  });
+
+  test("reports the daily quota once it is used up", async () => {
+    const limiter = new RateLimiter(new MemStorage(), { maxRequestsPerMinute: 10, maxRequestsPerDay: 2 });
+
+    assert.equal((await limiter.consume("ip:10.0.0.1")).allowed, true);
+    const second = await limiter.consume("ip:10.0.0.1");
+    assert.equal(second.allowed, true);
+    assert.equal(second.quota.day.remaining, 0);
+
+    const third = await limiter.consume("ip:10.0.0.1");
+    assert.equal(third.allowed, false);
+    assert.match(third.reason!, /Daily quota exceeded/);
+    assert.equal(third.waitTime, undefined);
+    // Denied requests don't use up quota
+    assert.equal(third.quota.day.used, 2);
+  });
+
+  test("keeps separate quotas per key", async () => {
+    const limiter = new RateLimiter(new MemStorage(), { maxRequestsPerMinute: 1, maxRequestsPerDay: 10 });
+
+    assert.equal((await limiter.consume("user:a")).allowed, true);
+    assert.equal((await limiter.consume("user:a")).allowed, false);
+    assert.equal((await limiter.consume("user:b")).allowed, true);
+  });
+
+  test("reads limits from the environment", () => {
+    assert.deepEqual(rateLimitConfigFromEnv({}), { maxRequestsPerMinute: 8, maxRequestsPerDay: 150 });
+    assert.deepEqual(
+      rateLimitConfigFromEnv({ RATE_LIMIT_PER_MINUTE: "2", RATE_LIMIT_PER_DAY: "20" }),
+      { maxRequestsPerMinute: 2, maxRequestsPerDay: 20 },
+    );
+  });
+});
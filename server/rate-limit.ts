@@ -0,0 +1,102 @@
+import type { Request } from "express";
+import type { Quota, QuotaWindow } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitConfig {
+  maxRequestsPerMinute: number;
+  maxRequestsPerDay: number;
+}
+
+export type RateLimitCheck = {
+  allowed: boolean;
+  waitTime?: number;
+  reason?: string;
+  quota: Quota;
+};
+
+// Defaults suit the OpenRouter free tier; override with RATE_LIMIT_PER_MINUTE / RATE_LIMIT_PER_DAY
+export function rateLimitConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  return {
+    maxRequestsPerMinute: parseInt(env.RATE_LIMIT_PER_MINUTE || "8", 10),
+    maxRequestsPerDay: parseInt(env.RATE_LIMIT_PER_DAY || "150", 10),
+  };
+}
+
+// Logged-in callers are limited per account, everyone else per IP address
+export function rateLimitKey(req: Request): string {
+  return req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+}
+
+function quotaWindow(events: Date[], limit: number, windowMs: number, now: number): QuotaWindow {
+  const inWindow = events.filter((at) => at.getTime() > now - windowMs);
+  const oldest = inWindow.length > 0 ? Math.min(...inWindow.map((at) => at.getTime())) : now;
+  return {
+    limit,
+    used: inWindow.length,
+    remaining: Math.max(0, limit - inWindow.length),
+    resetInSeconds: inWindow.length > 0 ? Math.ceil((oldest + windowMs - now) / 1000) : 0,
+  };
+}
+
+/**
+ * Sliding-window limiter whose request log lives in IStorage, so quotas are
+ * shared by every server process and survive restarts when using Postgres.
+ */
+export class RateLimiter {
+  constructor(
+    private storage: IStorage,
+    private config: RateLimitConfig = rateLimitConfigFromEnv(),
+  ) {}
+
+  async getQuota(key: string): Promise<Quota> {
+    const now = Date.now();
+    const events = await this.storage.getRateLimitEvents(key, new Date(now - DAY_MS));
+    return {
+      minute: quotaWindow(events, this.config.maxRequestsPerMinute, MINUTE_MS, now),
+      day: quotaWindow(events, this.config.maxRequestsPerDay, DAY_MS, now),
+    };
+  }
+
+  /**
+   * Count a request against the key's quota if it has room. The check and the
+   * record happen in one storage call, so concurrent requests from one caller
+   * can't all pass the check before any of them is counted.
+   */
+  async consume(key: string): Promise<RateLimitCheck> {
+    const now = Date.now();
+    const allowed = await this.storage.recordRateLimitEventWithin(key, new Date(now), [
+      { since: new Date(now - MINUTE_MS), limit: this.config.maxRequestsPerMinute },
+      { since: new Date(now - DAY_MS), limit: this.config.maxRequestsPerDay },
+    ]);
+    if (allowed) {
+      // Nothing older than the daily window is ever read again
+      await this.storage.pruneRateLimitEvents(key, new Date(now - DAY_MS));
+    }
+
+    const quota = await this.getQuota(key);
+    if (allowed) {
+      return { allowed: true, quota };
+    }
+
+    // Check daily limit
+    if (quota.day.remaining === 0 && quota.minute.remaining > 0) {
+      return {
+        allowed: false,
+        reason: `Daily quota exceeded (${quota.day.limit} requests/day). Try again tomorrow.`,
+        quota,
+      };
+    }
+
+    // Per-minute limit; the window may have moved on since the storage call, so wait at least a second
+    const waitTime = Math.max(1, quota.minute.resetInSeconds);
+    return {
+      allowed: false,
+      waitTime,
+      reason: `Rate limit: ${quota.minute.limit} requests/minute. Please wait ${waitTime}s.`,
+      quota,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import type { Diagnostic, RepairAttempt } from "@shared/schema";
+import type { CompletionRequest, CompletionResult } from "./llm";
+import { completeWithContinuation } from "./continuation";
+import { parseGenerationResponse, type GeneratedFiles } from "./response-parser";
+import { toProjectFiles } from "./project-files";
+import { validateProject } from "./validation";
+import { addUsage, type TokenUsage } from "./usage";
+
+const REPAIR_SYSTEM_PROMPT = `You are an AI code fixer. You receive the files of a website as JSON and a list of problems a validator found in them.
+Fix every listed problem and return the COMPLETE updated files. Return ONLY valid JSON. No markdown.
+FORMAT:
+{
+  "files": {
+    "index.html": "<html...>",
+    "style.css": "<css...>",
+    "script.js": "<js...>"
+  }
+}
+RULES:
+- JSON ONLY. No \`\`\` wrappers.
+- Return every file, including unchanged ones.
+- A link or asset pointing to a missing file: create the file if it is a page, stylesheet or script the site needs, otherwise point it at an existing file.
+- Paths: relative, lowercase, only .html/.css/.js files; folders allowed (e.g. css/theme.css).
+- Change only what fixing the problems needs; keep the design and content otherwise.
+- CSS and JS: MINIFIED (no whitespace/comments).`;
+
+// Upper bound for REPAIR_ROUNDS; every round is another full-size request
+const MAX_REPAIR_ROUNDS = 3;
+// Problems listed in one request; anything left over is picked up by the next round
+const MAX_LISTED_ERRORS = 30;
+
+// REPAIR_ROUNDS=0 turns self-repair off
+export function repairRoundsFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const rounds = parseInt(env.REPAIR_ROUNDS ?? "", 10);
+  return Number.isNaN(rounds) ? 1 : Math.min(Math.max(rounds, 0), MAX_REPAIR_ROUNDS);
+}
+
+export type RepairOptions = {
+  model: string;
+  maxRounds: number;
+  maxTokens?: number;
+  // Follow-up requests allowed per round when a reply is cut off
+  maxContinuationRounds: number;
+  signal?: AbortSignal;
+  onRound?: (round: number) => void;
+};
+
+export type RepairResult = {
+  files: GeneratedFiles;
+  attempts: RepairAttempt[];
+  // Summed over all repair requests that reported it
+  usage?: TokenUsage;
+};
+
+function errorsIn(files: GeneratedFiles): Diagnostic[] {
+  return validateProject(toProjectFiles(files)).filter((d) => d.severity === "error");
+}
+
+function repairRequest(files: GeneratedFiles, errors: Diagnostic[], options: RepairOptions): CompletionRequest {
+  const problems = errors
+    .slice(0, MAX_LISTED_ERRORS)
+    .map((d) => `- ${d.file}:${d.line}:${d.column} ${d.message}`)
+    .join("\n");
+  return {
+    model: options.model,
+    maxTokens: options.maxTokens,
+    messages: [
+      { role: "system", content: REPAIR_SYSTEM_PROMPT },
+      { role: "user", content: `CURRENT FILES:\n${JSON.stringify({ files })}\n\nPROBLEMS:\n${problems}` },
+    ],
+    signal: options.signal,
+  };
+}
+
+/**
+ * Feed the errors the validation pass finds in a generation's files back to
+ * the model for up to `maxRounds` fix-up requests. A reply is kept only when
+ * it has fewer errors than the files it was asked to fix; otherwise, or when
+ * a request fails, the loop stops and the best files so far are returned.
+ */
+export async function repairFiles(
+  complete: (request: CompletionRequest) => Promise<CompletionResult>,
+  files: GeneratedFiles,
+  options: RepairOptions,
+): Promise<RepairResult> {
+  let current = files;
+  let errors = errorsIn(files);
+  let usage: TokenUsage | undefined;
+  const attempts: RepairAttempt[] = [];
+
+  for (let round = 1; round <= options.maxRounds && errors.length > 0; round++) {
+    console.log(`[REPAIR] ${errors.length} error(s) found, requesting fix-up round ${round}/${options.maxRounds}`);
+    options.onRound?.(round);
+
+    const startedAt = Date.now();
+    const attempt: RepairAttempt = { errorsBefore: errors.length, errorsAfter: null, kept: false, latencyMs: 0 };
+    attempts.push(attempt);
+    try {
+      const result = await completeWithContinuation(complete, repairRequest(current, errors, options), options.maxContinuationRounds);
+      usage = addUsage(usage, result.usage);
+
+      // Files the model left out of its reply stay as they were
+      const repaired = { ...current, ...parseGenerationResponse(result.content).files };
+      const remaining = errorsIn(repaired);
+      attempt.errorsAfter = remaining.length;
+      if (remaining.length < errors.length) {
+        current = repaired;
+        errors = remaining;
+        attempt.kept = true;
+      }
+    } catch (error: any) {
+      if (options.signal?.aborted) throw error;
+      console.warn("[REPAIR] Fix-up request failed, keeping the files as they were:", error?.message);
+      attempt.error = error?.message || "Repair request failed";
+    } finally {
+      attempt.latencyMs = Date.now() - startedAt;
+    }
+
+    // Asking again about files the model just failed to improve rarely goes better
+    if (!attempt.kept) break;
+  }
+
+  return { files: current, attempts, usage };
+}
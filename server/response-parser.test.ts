@@ -0,0 +1,201 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isCompleteResponse, isTruncatedResponse, parseGenerationResponse, repairJson } from "./response-parser";
+
+// Replies in the shapes models have actually sent back
+const FENCED_IN_PROSE = `Sure! Here is your bakery website:
+
+\`\`\`json
+{
+  "files": {
+    "index.html": "<!DOCTYPE html><html><head><link rel=\\"stylesheet\\" href=\\"style.css\\"></head><body><h1>Sweet Crumbs</h1></body></html>",
+    "style.css": "h1{color:#c0392b}"
+  }
+}
+\`\`\`
+
+Let me know if you'd like any changes!`;
+
+const TRUNCATED_STRING = `{"files":{"index.html":"<h1>Sweet Crumbs</h1>","style.css":"body{margin:0}h1{font-si`;
+
+const TRUNCATED_BRACKETS = `{"files":{"index.html":"<h1>Sweet Crumbs</h1>","script.js":"document.querySelector('h1')"`;
+
+const TRUNCATED_KEY = `{"files":{"index.html":"<h1>Sweet Crumbs</h1>","scr`;
+
+const INVALID_ESCAPES = String.raw`{"files":{"index.html":"<input pattern=\"\d{5}\">","script.js":"const zip=/^\d{5}$/;const path='C:\Users\me'"}}`;
+
+const TRAILING_COMMAS = `{"files":{"index.html":"<h1>Hi</h1>","style.css":"h1{color:red}",},}`;
+
+const RAW_NEWLINES = `{"files":{"index.html":"<h1>Hi</h1>
+<p>Welcome</p>","script.js":"console.log(1);\tconsole.log(2)"}}`;
+
+const LEGACY_SHAPE = `{"html":"<h1>Hi</h1>","css":"h1{color:red}","js":"alert(1)"}`;
+
+const MARKDOWN_BLOCKS = `Here are the files.
+
+**index.html**
+\`\`\`html
+<h1>Sweet Crumbs</h1>
+\`\`\`
+
+\`\`\`css css/theme.css
+h1 { color: red; }
+\`\`\`
+
+\`\`\`javascript
+console.log("ready");
+\`\`\``;
+
+const UNCLOSED_MARKDOWN = `\`\`\`html
+<h1>Sweet Crumbs</h1>
+\`\`\`
+\`\`\`css
+h1 { color:`;
+
+describe("parseGenerationResponse", () => {
+  test("finds fenced JSON in the middle of prose", () => {
+    const parsed = parseGenerationResponse(FENCED_IN_PROSE);
+
+    assert.equal(parsed.format, "json");
+    assert.equal(parsed.repaired, false);
+    assert.equal(parsed.truncated, false);
+    assert.deepEqual(Object.keys(parsed.files), ["index.html", "style.css"]);
+    assert.match(parsed.files["index.html"], /href="style.css"/);
+  });
+
+  test("finds bare JSON surrounded by prose", () => {
+    const parsed = parseGenerationResponse(`Here you go: {"files":{"index.html":"<h1>Hi</h1>"}} Enjoy!`);
+
+    assert.deepEqual(parsed.files, { "index.html": "<h1>Hi</h1>" });
+  });
+
+  test("closes a string cut off mid-file", () => {
+    const parsed = parseGenerationResponse(TRUNCATED_STRING);
+
+    assert.equal(parsed.truncated, true);
+    assert.deepEqual(parsed.files, { "index.html": "<h1>Sweet Crumbs</h1>", "style.css": "body{margin:0}h1{font-si" });
+  });
+
+  test("closes brackets left open", () => {
+    const parsed = parseGenerationResponse(TRUNCATED_BRACKETS);
+
+    assert.equal(parsed.truncated, true);
+    assert.equal(parsed.files["script.js"], "document.querySelector('h1')");
+  });
+
+  test("drops a half-written key", () => {
+    const parsed = parseGenerationResponse(TRUNCATED_KEY);
+
+    assert.equal(parsed.truncated, true);
+    assert.deepEqual(parsed.files, { "index.html": "<h1>Sweet Crumbs</h1>" });
+  });
+
+  test("keeps backslashes of invalid escapes such as \\d", () => {
+    const parsed = parseGenerationResponse(INVALID_ESCAPES);
+
+    assert.equal(parsed.repaired, true);
+    assert.equal(parsed.files["index.html"], String.raw`<input pattern="\d{5}">`);
+    assert.equal(parsed.files["script.js"], String.raw`const zip=/^\d{5}$/;const path='C:\Users\me'`);
+  });
+
+  test("drops trailing commas", () => {
+    const parsed = parseGenerationResponse(TRAILING_COMMAS);
+
+    assert.equal(parsed.repaired, true);
+    assert.deepEqual(parsed.files, { "index.html": "<h1>Hi</h1>", "style.css": "h1{color:red}" });
+  });
+
+  test("escapes raw control characters inside strings", () => {
+    const parsed = parseGenerationResponse(RAW_NEWLINES);
+
+    assert.equal(parsed.files["index.html"], "<h1>Hi</h1>\n<p>Welcome</p>");
+    assert.equal(parsed.files["script.js"], "console.log(1);\tconsole.log(2)");
+  });
+
+  test("converts the legacy {html, css, js} shape", () => {
+    const parsed = parseGenerationResponse(LEGACY_SHAPE);
+
+    assert.equal(parsed.format, "legacy-json");
+    assert.deepEqual(parsed.files, { "index.html": "<h1>Hi</h1>", "style.css": "h1{color:red}", "script.js": "alert(1)" });
+  });
+
+  test("falls back to per-file markdown code blocks", () => {
+    const parsed = parseGenerationResponse(MARKDOWN_BLOCKS);
+
+    assert.equal(parsed.format, "code-blocks");
+    assert.equal(parsed.truncated, false);
+    assert.deepEqual(parsed.files, {
+      "index.html": "<h1>Sweet Crumbs</h1>",
+      "css/theme.css": "h1 { color: red; }",
+      "script.js": 'console.log("ready");',
+    });
+  });
+
+  test("reports an unclosed last code block as truncated", () => {
+    const parsed = parseGenerationResponse(UNCLOSED_MARKDOWN);
+
+    assert.equal(parsed.format, "code-blocks");
+    assert.equal(parsed.truncated, true);
+    assert.equal(parsed.files["style.css"], "h1 { color:");
+  });
+
+  test("rejects replies without an index.html", () => {
+    assert.throws(
+      () => parseGenerationResponse(`{"files":{"about.html":"<h1>About</h1>"}}`),
+      (error: any) => error.code === "INVALID_FORMAT" && /index\.html/.test(error.message),
+    );
+  });
+
+  test("rejects replies with no files at all", () => {
+    assert.throws(
+      () => parseGenerationResponse("I'm sorry, I can't help with that."),
+      (error: any) => error.code === "INVALID_FORMAT",
+    );
+  });
+});
+
+describe("repairJson", () => {
+  test("leaves valid JSON alone", () => {
+    const json = `{"files":{"index.html":"<h1>Hi</h1>"}}`;
+
+    assert.deepEqual(repairJson(json), { text: json, repaired: false, truncated: false });
+  });
+
+  test("starts at the first bracket", () => {
+    const { text } = repairJson(`Output: {"a":[1,2]}`);
+
+    assert.deepEqual(JSON.parse(text), { a: [1, 2] });
+  });
+
+  test("drops a half-written literal before closing", () => {
+    const { text, truncated } = repairJson(`{"a":[1,2,tru`);
+
+    assert.equal(truncated, true);
+    assert.deepEqual(JSON.parse(text), { a: [1, 2] });
+  });
+
+  test("ends a dangling escape inside a cut-off string", () => {
+    const { text, truncated } = repairJson(`{"a":"line\\`);
+
+    assert.equal(truncated, true);
+    assert.deepEqual(JSON.parse(text), { a: "line" });
+  });
+
+  test("returns text without brackets untouched", () => {
+    assert.deepEqual(repairJson("no json here"), { text: "no json here", repaired: false, truncated: false });
+  });
+});
+
+describe("truncation checks", () => {
+  test("tell cut-off replies from complete ones", () => {
+    assert.equal(isTruncatedResponse(TRUNCATED_STRING), true);
+    assert.equal(isCompleteResponse(TRUNCATED_STRING), false);
+    assert.equal(isTruncatedResponse(FENCED_IN_PROSE), false);
+    assert.equal(isCompleteResponse(FENCED_IN_PROSE), true);
+  });
+
+  test("treat an unfinished object that can't be parsed yet as truncated", () => {
+    assert.equal(isTruncatedResponse(`{"files":{`), true);
+    assert.equal(isCompleteResponse(`{"files":{`), false);
+  });
+});
@@ -0,0 +1,325 @@
+import { z } from "zod";
+
+// File path -> content, as returned by the model
+export type GeneratedFiles = Record<string, string>;
+
+export type ParsedResponse = {
+  files: GeneratedFiles;
+  // Which shape the model used
+  format: "json" | "legacy-json" | "code-blocks";
+  // Whether the JSON had to be repaired (escapes, trailing commas...)
+  repaired: boolean;
+  // Whether the output was cut off and had its strings/brackets closed for it
+  truncated: boolean;
+};
+
+const filesResponseSchema = z.object({
+  files: z.record(z.string(), z.string()),
+});
+
+// The original {html, css, js} shape some models still fall back to
+const legacyResponseSchema = z
+  .object({
+    html: z.string().optional(),
+    css: z.string().optional(),
+    js: z.string().optional(),
+  })
+  .refine((value) => value.html || value.css || value.js, "No html, css or js field");
+
+const generatedFilesSchema = z
+  .record(z.string(), z.string())
+  .refine((files) => !!files["index.html"]?.trim(), 'Missing or invalid "index.html" in files');
+
+const VALID_ESCAPES = new Set(['"', "\\", "/", "b", "f", "n", "r", "t", "u"]);
+const CONTROL_ESCAPES: Record<string, string> = { "\n": "\\n", "\r": "\\r", "\t": "\\t" };
+
+type Frame = {
+  kind: "object" | "array";
+  // What the container expects next
+  state: "key" | "colon" | "value" | "after";
+};
+
+/**
+ * Best-effort fix-up of model-written JSON. Starting at the first bracket it
+ * escapes raw control characters and invalid escapes inside strings, drops
+ * trailing commas and, if the text stops early, closes the open string and
+ * brackets after discarding any half-written key or literal.
+ */
+export function repairJson(input: string): { text: string; repaired: boolean; truncated: boolean } {
+  const start = input.search(/[{[]/);
+  if (start === -1) {
+    return { text: input, repaired: false, truncated: false };
+  }
+
+  let out = "";
+  let repaired = false;
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let inPrimitive = false;
+  let done = false;
+  // Longest prefix of `out` that becomes valid JSON once its open containers are closed
+  let safe = { length: 0, stack: [] as Frame[] };
+
+  const top = () => stack[stack.length - 1];
+  const snapshot = () => {
+    safe = { length: out.length, stack: stack.map((frame) => ({ ...frame })) };
+  };
+  const completeValue = () => {
+    const frame = top();
+    if (frame) {
+      frame.state = "after";
+      snapshot();
+    } else {
+      done = true;
+    }
+  };
+  const dropTrailingComma = () => {
+    const trimmed = out.replace(/\s+$/, "");
+    if (trimmed.endsWith(",")) {
+      out = trimmed.slice(0, -1);
+      repaired = true;
+    }
+  };
+
+  for (let i = start; i < input.length && !done; i++) {
+    const char = input[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        if (VALID_ESCAPES.has(char)) {
+          out += `\\${char}`;
+        } else if (char === "'") {
+          out += "'";
+          repaired = true;
+        } else {
+          // e.g. a regex "\d" in generated JS: keep the backslash literally
+          out += `\\\\${char}`;
+          repaired = true;
+        }
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        out += char;
+        inString = false;
+        if (stringIsKey) {
+          top().state = "colon";
+        } else {
+          completeValue();
+        }
+      } else if (char < " ") {
+        out += CONTROL_ESCAPES[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+        repaired = true;
+      } else {
+        out += char;
+      }
+      continue;
+    }
+
+    if (inPrimitive && /[\s,}\]]/.test(char)) {
+      inPrimitive = false;
+      completeValue();
+    }
+
+    switch (char) {
+      case "{":
+      case "[":
+        stack.push({ kind: char === "{" ? "object" : "array", state: char === "{" ? "key" : "value" });
+        out += char;
+        snapshot();
+        break;
+      case "}":
+      case "]":
+        dropTrailingComma();
+        stack.pop();
+        out += char;
+        completeValue();
+        break;
+      case ",":
+        if (top()) top().state = top().kind === "object" ? "key" : "value";
+        out += char;
+        break;
+      case ":":
+        if (top()) top().state = "value";
+        out += char;
+        break;
+      case '"':
+        inString = true;
+        stringIsKey = top()?.kind === "object" && top().state === "key";
+        out += char;
+        break;
+      default:
+        if (!/\s/.test(char)) inPrimitive = true;
+        out += char;
+    }
+  }
+
+  if (done) {
+    return { text: out, repaired, truncated: false };
+  }
+
+  // Truncated: keep a partially written string value, drop anything else half-done
+  if (inString && !stringIsKey) {
+    out += '"';
+    completeValue();
+  }
+  out = out.slice(0, safe.length);
+  dropTrailingComma();
+  const closers = safe.stack
+    .reverse()
+    .map((frame) => (frame.kind === "object" ? "}" : "]"))
+    .join("");
+
+  return { text: out + closers, repaired: true, truncated: true };
+}
+
+type FencedBlock = { info: string; content: string; before: string; closed: boolean };
+
+// ``` blocks anywhere in the text; an unterminated last block runs to the end
+function extractFencedBlocks(text: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  const fence = /```([^\n`]*)\n([\s\S]*?)(\n?```|$)/g;
+  let lastEnd = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = fence.exec(text)) !== null) {
+    blocks.push({
+      info: match[1].trim(),
+      content: match[2],
+      before: text.slice(lastEnd, match.index),
+      closed: match[3] !== "",
+    });
+    lastEnd = fence.lastIndex;
+    if (match[0].length === 0) fence.lastIndex++;
+  }
+  return blocks;
+}
+
+function validateFiles(value: unknown): { files: GeneratedFiles; format: ParsedResponse["format"] } {
+  const filesShape = filesResponseSchema.safeParse(value);
+  if (filesShape.success) {
+    return { files: generatedFilesSchema.parse(filesShape.data.files), format: "json" };
+  }
+
+  const legacyShape = legacyResponseSchema.safeParse(value);
+  if (legacyShape.success) {
+    console.log('[BACKWARD COMPAT] Converting old format to new format');
+    const files = {
+      "index.html": legacyShape.data.html || "",
+      "style.css": legacyShape.data.css || "",
+      "script.js": legacyShape.data.js || "",
+    };
+    return { files: generatedFilesSchema.parse(files), format: "legacy-json" };
+  }
+
+  throw filesShape.error;
+}
+
+function parseJsonCandidate(candidate: string): ParsedResponse {
+  try {
+    return { ...validateFiles(JSON.parse(candidate)), repaired: false, truncated: false };
+  } catch (e) {
+    const { text, repaired, truncated } = repairJson(candidate);
+    return { ...validateFiles(JSON.parse(text)), repaired, truncated };
+  }
+}
+
+const FILE_NAME = /([\w][\w./-]*\.(?:html?|css|js))\b/i;
+const DEFAULT_NAMES: Record<string, string> = {
+  html: "index.html",
+  css: "style.css",
+  js: "script.js",
+  javascript: "script.js",
+};
+
+// Markdown answers like "**index.html**\n```html\n...```" or "```css style.css"
+function parseCodeBlocks(blocks: FencedBlock[]): ParsedResponse {
+  const files: GeneratedFiles = {};
+
+  for (const block of blocks) {
+    const language = block.info.split(/[\s:]/)[0].toLowerCase();
+    const lastLineBefore = block.before.trim().split("\n").pop() || "";
+    const name =
+      block.info.match(FILE_NAME)?.[1] ||
+      lastLineBefore.match(FILE_NAME)?.[1] ||
+      DEFAULT_NAMES[language];
+
+    if (name && !(name in files)) {
+      files[name] = block.content;
+    }
+  }
+
+  const truncated = blocks.length > 0 && !blocks[blocks.length - 1].closed;
+  return { files: generatedFilesSchema.parse(files), format: "code-blocks", repaired: false, truncated };
+}
+
+function parseResponse(generatedText: string): ParsedResponse {
+  const text = generatedText.trim();
+  const blocks = extractFencedBlocks(text);
+
+  const jsonCandidates = [
+    ...blocks.filter((b) => /^json\b/i.test(b.info) || b.content.trimStart().startsWith("{")).map((b) => b.content),
+    text,
+  ];
+
+  let lastError: any;
+  for (const candidate of jsonCandidates) {
+    try {
+      return parseJsonCandidate(candidate);
+    } catch (e) {
+      lastError = e;
+    }
+  }
+
+  const codeBlocks = blocks.filter((b) => !/^json\b/i.test(b.info));
+  if (codeBlocks.length > 0) {
+    try {
+      return parseCodeBlocks(codeBlocks);
+    } catch (e) {
+      lastError = e;
+    }
+  }
+
+  throw lastError || new Error("Response does not match any expected format");
+}
+
+/**
+ * Turn raw model output into a files map. Accepts the JSON we ask for (bare or
+ * fenced anywhere in the text), the legacy {html, css, js} shape, JSON that
+ * needs repairing or was cut off, and per-file markdown code blocks.
+ */
+export function parseGenerationResponse(generatedText: string): ParsedResponse {
+  try {
+    return parseResponse(generatedText);
+  } catch (parseError: any) {
+    const message =
+      parseError instanceof z.ZodError ? parseError.issues[0].message : parseError?.message;
+    console.error("[JSON PARSE ERROR]", message);
+    console.error("[RAW RESPONSE]", generatedText.trim().substring(0, 500));
+
+    const error: any = new Error(message || "Response does not match any expected format");
+    error.code = "INVALID_FORMAT";
+    throw error;
+  }
+}
+
+// Whether the reply stops partway through, i.e. asking the model to continue could complete it
+export function isTruncatedResponse(generatedText: string): boolean {
+  try {
+    return parseResponse(generatedText).truncated;
+  } catch (e) {
+    // Unusable as-is; still worth continuing if it is the start of an unfinished JSON object
+    return repairJson(generatedText).truncated;
+  }
+}
+
+// Whether the reply parses without needing anything closed for it
+export function isCompleteResponse(generatedText: string): boolean {
+  try {
+    return !parseResponse(generatedText).truncated;
+  } catch (e) {
+    return false;
+  }
+}
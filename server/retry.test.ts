@@ -0,0 +1,276 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { OpenAICompatibleProvider, parseRetryAfter } from "./llm";
+import { RetryingProvider, backoffDelay, isRetryableError, withRetry, type RetryOptions } from "./retry";
+
+// Long enough that a test finishing quickly proves no backoff happened
+const options: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 10_000,
+  maxDelayMs: 10_000,
+  deadlineMs: 60_000,
+  isRetryable: isRetryableError,
+};
+
+const request = { messages: [{ role: "user" as const, content: "A bakery site" }] };
+
+function completion(content: string) {
+  return Response.json({ model: "test-model", choices: [{ message: { content }, finish_reason: "stop" }] });
+}
+
+function failure(status: number, headers: Record<string, string> = {}) {
+  return Response.json({ error: { message: `Upstream said ${status}` } }, { status, headers });
+}
+
+function chunk(content: string) {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+}
+
+// An SSE body that sends `chunks`, then either ends or fails like a dropped connection
+function eventStream(chunks: string[], fail?: Error) {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = chunks.shift();
+      if (next !== undefined) {
+        controller.enqueue(encoder.encode(next));
+      } else if (fail) {
+        controller.error(fail);
+      } else {
+        controller.close();
+      }
+    },
+  }));
+}
+
+function fetchFailed(code: string) {
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
+// Answers each call with the next reply; a thrown reply stands for a failed connection
+function fakeFetch(replies: (() => Response)[]) {
+  const calls: RequestInit[] = [];
+  const fetch = (async (_url: string, init: RequestInit) => {
+    calls.push(init);
+    const reply = replies.shift();
+    if (!reply) throw new Error("Unexpected request");
+    return reply();
+  }) as typeof globalThis.fetch;
+  return { fetch, calls };
+}
+
+function retryingProvider(replies: (() => Response)[], retryOptions: Partial<RetryOptions> = {}) {
+  const { fetch, calls } = fakeFetch(replies);
+  const provider = new OpenAICompatibleProvider({ baseUrl: "http://llm.test/v1", defaultModel: "test-model", fetch });
+  return { provider: new RetryingProvider(provider, { ...options, ...retryOptions }), calls };
+}
+
+async function collect(tokens: AsyncGenerator<string, unknown>) {
+  const seen: string[] = [];
+  for await (const token of tokens) seen.push(token);
+  return seen;
+}
+
+describe("parseRetryAfter", () => {
+  test("reads seconds", () => {
+    assert.equal(parseRetryAfter("2"), 2000);
+    assert.equal(parseRetryAfter(" 0.25 "), 250);
+  });
+
+  test("reads HTTP dates relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    assert.equal(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now), 30_000);
+    // Dates in the past mean "now"
+    assert.equal(parseRetryAfter("Wed, 21 Oct 2026 07:27:00 GMT", now), 0);
+  });
+
+  test("ignores missing or unreadable values", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter(""), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+});
+
+describe("backoffDelay", () => {
+  const backoff = { ...options, baseDelayMs: 1000, maxDelayMs: 15_000 };
+
+  test("jitters between half and all of the exponential cap", () => {
+    for (const attempt of [1, 2, 3, 4]) {
+      const cap = 1000 * 2 ** (attempt - 1);
+      assert.equal(backoffDelay(attempt, backoff, () => 0), cap / 2);
+      assert.equal(backoffDelay(attempt, backoff, () => 0.999999), cap);
+      const delay = backoffDelay(attempt, backoff);
+      assert.ok(delay >= cap / 2 && delay <= cap, `${delay} outside [${cap / 2}, ${cap}]`);
+    }
+  });
+
+  test("never exceeds maxDelayMs", () => {
+    assert.equal(backoffDelay(10, backoff, () => 0.999999), 15_000);
+    assert.equal(backoffDelay(10, backoff, () => 0), 7500);
+  });
+});
+
+describe("isRetryableError", () => {
+  test("retries rate limits, timeouts and server errors", () => {
+    for (const status of [408, 429, 500, 502, 503]) {
+      assert.equal(isRetryableError({ status }), true, String(status));
+    }
+  });
+
+  test("doesn't retry bad requests, auth failures or missing credits", () => {
+    for (const status of [400, 401, 402, 403, 404]) {
+      assert.equal(isRetryableError({ status }), false, String(status));
+    }
+  });
+
+  test("retries undici's fetch failed errors", () => {
+    assert.equal(isRetryableError(fetchFailed("ECONNRESET")), true);
+    assert.equal(isRetryableError(fetchFailed("UND_ERR_SOCKET")), true);
+    assert.equal(isRetryableError(fetchFailed("UND_ERR_CONNECT_TIMEOUT")), true);
+    // Some failures carry no code at all
+    assert.equal(isRetryableError(new TypeError("fetch failed")), true);
+  });
+
+  test("retries what Node's fetch throws for a refused connection", async () => {
+    // Nothing normally listens on the discard port, so the connection is refused
+    const error = await fetch("http://127.0.0.1:9/").then(() => undefined, (error) => error);
+
+    assert.equal(error?.message, "fetch failed");
+    assert.equal(isRetryableError(error), true);
+  });
+
+  test("retries empty replies but not aborts or other errors", () => {
+    assert.equal(isRetryableError({ code: "EMPTY_RESPONSE" }), true);
+    assert.equal(isRetryableError(new DOMException("The operation was aborted.", "AbortError")), false);
+    assert.equal(isRetryableError(new TypeError("Cannot read properties of undefined")), false);
+    assert.equal(isRetryableError(new Error("Invalid JSON")), false);
+  });
+});
+
+describe("withRetry", () => {
+  test("stops after maxAttempts", async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        attempts++;
+        throw Object.assign(new Error("busy"), { status: 503, retryAfterMs: 0 });
+      }, options),
+      /busy/,
+    );
+    assert.equal(attempts, 3);
+  });
+
+  test("stops waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(new Error("cancelled")), 20);
+
+    await assert.rejects(
+      withRetry(async () => { throw { status: 503 }; }, options, controller.signal),
+      /cancelled/,
+    );
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe("RetryingProvider", () => {
+  test("waits for Retry-After given in seconds", async () => {
+    const { provider, calls } = retryingProvider([
+      () => failure(429, { "Retry-After": "0.05" }),
+      () => completion("<h1>Hi</h1>"),
+    ]);
+
+    const started = Date.now();
+    const result = await provider.complete(request);
+    const elapsed = Date.now() - started;
+
+    assert.equal(result.content, "<h1>Hi</h1>");
+    assert.equal(calls.length, 2);
+    assert.ok(elapsed >= 45 && elapsed < 5000, `waited ${elapsed}ms`);
+  });
+
+  test("waits for Retry-After given as an HTTP date", async () => {
+    // HTTP dates have whole seconds, so this is at most a second away
+    const { provider, calls } = retryingProvider([
+      () => failure(503, { "Retry-After": new Date(Date.now() + 1000).toUTCString() }),
+      () => completion("<h1>Hi</h1>"),
+    ]);
+
+    const started = Date.now();
+    await provider.complete(request);
+
+    assert.equal(calls.length, 2);
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  test("gives up when waiting would pass the deadline", async () => {
+    const { provider, calls } = retryingProvider([
+      () => failure(429, { "Retry-After": "120" }),
+      () => completion("<h1>Hi</h1>"),
+    ]);
+
+    const started = Date.now();
+    await assert.rejects(provider.complete(request), (error: any) => error.status === 429);
+
+    assert.equal(calls.length, 1);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  for (const status of [400, 401, 402]) {
+    test(`doesn't retry ${status}`, async () => {
+      const { provider, calls } = retryingProvider([
+        () => failure(status),
+        () => completion("<h1>Hi</h1>"),
+      ]);
+
+      await assert.rejects(provider.complete(request), (error: any) => error.status === status);
+      assert.equal(calls.length, 1);
+    });
+  }
+
+  test("retries a dropped connection", async () => {
+    const { provider, calls } = retryingProvider([
+      () => { throw fetchFailed("ECONNRESET"); },
+      () => completion("<h1>Hi</h1>"),
+    ], { baseDelayMs: 1, maxDelayMs: 1 });
+
+    assert.equal((await provider.complete(request)).content, "<h1>Hi</h1>");
+    assert.equal(calls.length, 2);
+  });
+
+  test("retries a stream that fails before its first token", async () => {
+    const { provider, calls } = retryingProvider([
+      () => eventStream([], fetchFailed("UND_ERR_SOCKET")),
+      () => eventStream([chunk("<h1>"), chunk("Hi</h1>"), "data: [DONE]\n\n"]),
+    ], { baseDelayMs: 1, maxDelayMs: 1 });
+
+    assert.deepEqual(await collect(provider.stream(request)), ["<h1>", "Hi</h1>"]);
+    assert.equal(calls.length, 2);
+  });
+
+  test("retries a stream that ends without any token", async () => {
+    const { provider, calls } = retryingProvider([
+      () => eventStream(["data: [DONE]\n\n"]),
+      () => eventStream([chunk("<h1>Hi</h1>"), "data: [DONE]\n\n"]),
+    ], { baseDelayMs: 1, maxDelayMs: 1 });
+
+    assert.deepEqual(await collect(provider.stream(request)), ["<h1>Hi</h1>"]);
+    assert.equal(calls.length, 2);
+  });
+
+  test("doesn't retry a stream that fails after its first token", async () => {
+    const { provider, calls } = retryingProvider([
+      () => eventStream([chunk("<h1>")], fetchFailed("UND_ERR_SOCKET")),
+      () => eventStream([chunk("<h1>Hi</h1>"), "data: [DONE]\n\n"]),
+    ], { baseDelayMs: 1, maxDelayMs: 1 });
+
+    const seen: string[] = [];
+    await assert.rejects(async () => {
+      for await (const token of provider.stream(request)) seen.push(token);
+    }, /fetch failed/);
+
+    // Retrying would repeat "<h1>", which the caller has already seen
+    assert.deepEqual(seen, ["<h1>"]);
+    assert.equal(calls.length, 1);
+  });
+});
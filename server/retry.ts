@@ -0,0 +1,136 @@
+import { emptyResponseError, type CompletionRequest, type CompletionResult, type LlmProvider, type StreamEnd } from "./llm";
+
+export interface RetryOptions {
+  // Total tries, including the first
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // No retry is started once it would finish waiting past this budget
+  deadlineMs: number;
+  isRetryable: (error: any) => boolean;
+}
+
+// Error codes Node's fetch (undici) reports in error.cause for dropped connections
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+// Rate limits, server errors, dropped connections and empty replies are worth another try;
+// bad requests, auth failures and 402 (out of credits) are not
+export function isRetryableError(error: any): boolean {
+  if (error?.name === "AbortError") return false;
+
+  const status = Number(error?.status);
+  if (status) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  if (error?.code === "EMPTY_RESPONSE") return true;
+
+  const networkCode = error?.code ?? error?.cause?.code;
+  return NETWORK_ERROR_CODES.has(networkCode) || (error instanceof TypeError && error.message === "fetch failed");
+}
+
+export function retryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  return {
+    maxAttempts: parseInt(env.LLM_RETRY_ATTEMPTS || "3", 10),
+    baseDelayMs: 1000,
+    maxDelayMs: 15000,
+    deadlineMs: parseInt(env.LLM_RETRY_DEADLINE_MS || "60000", 10),
+    isRetryable: isRetryableError,
+  };
+}
+
+// Exponential backoff with jitter, so clients that failed together don't retry together
+export function backoffDelay(attempt: number, options: RetryOptions, random = Math.random): number {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + random() * (cap / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `operation` until it succeeds, retrying retryable errors after the
+ * server's Retry-After or a jittered exponential backoff, within the deadline.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = retryOptionsFromEnv(),
+  signal?: AbortSignal,
+): Promise<T> {
+  const deadline = Date.now() + options.deadlineMs;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      if (signal?.aborted || attempt >= options.maxAttempts || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = error?.retryAfterMs ?? backoffDelay(attempt, options);
+      if (Date.now() + delay > deadline) {
+        throw error;
+      }
+
+      console.log(`[RETRY] Attempt ${attempt} failed (${error?.status ?? error?.code ?? error?.message}), retrying in ${delay}ms`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Wraps a provider so every completion is retried per `options`. Streams are
+ * only retried until their first token: after that a retry would repeat text
+ * the caller has already seen.
+ */
+export class RetryingProvider implements LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(private provider: LlmProvider, private options: RetryOptions = retryOptionsFromEnv()) {
+    this.name = provider.name;
+    this.defaultModel = provider.defaultModel;
+  }
+
+  complete(request: CompletionRequest): Promise<CompletionResult> {
+    return withRetry(() => this.provider.complete(request), this.options, request.signal);
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string, StreamEnd> {
+    const { tokens, first } = await withRetry(async () => {
+      const tokens = this.provider.stream(request);
+      const first = await tokens.next();
+      if (first.done) throw emptyResponseError();
+      return { tokens, first };
+    }, this.options, request.signal);
+
+    let step: IteratorResult<string, StreamEnd> = first;
+    while (!step.done) {
+      yield step.value;
+      step = await tokens.next();
+    }
+    return step.value;
+  }
+}
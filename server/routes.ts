@@ -1,65 +1,91 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { generateRequestSchema } from "@shared/schema";
+import { z } from "zod";
+import {
+  generateRequestSchema,
+  generationQuerySchema,
+  refineRequestSchema,
+  updateFilesRequestSchema,
+  updateGenerationRequestSchema,
+  TEMPERATURE_RANGE,
+  type GenerateRequest,
+  type Generation,
+  type GenerationJob,
+  type GenerationPage,
+  type ModelsResponse,
+  type ProjectFile,
+  type RepairAttempt,
+  type VersionSource,
+} from "@shared/schema";
 import archiver from "archiver";
 import { Readable } from "stream";
+import { startEventStream, sendEvent, FileStreamScanner } from "./sse";
+import { createProviderFromEnv, emptyResponseError, type CompletionRequest, type CompletionResult } from "./llm";
+import { RetryingProvider } from "./retry";
+import { prepareExportFiles, buildManifest, buildBundle, SOURCE_DIR, BUNDLE_DIR } from "./export";
+import { validateProject } from "./validation";
+import { getProjectFiles, normalizeProjectPath, projectFilesError, toProjectFiles } from "./project-files";
+import { setupAuth, requireAuth } from "./auth";
+import { RateLimiter, rateLimitKey } from "./rate-limit";
+import { parseGenerationResponse, type GeneratedFiles } from "./response-parser";
+import { completeWithContinuation, streamWithContinuation } from "./continuation";
+import { JobQueue, isFinished, jobConcurrencyFromEnv, type JobListener } from "./jobs";
+import { modelChainFromEnv, resolveModelChain, withModelFallback } from "./model-chain";
+import { getStylePreset, listStylePresets } from "./style-presets";
+import { addUsage, estimateCost, summarizeUsage, type TokenUsage } from "./usage";
+import { repairFiles, repairRoundsFromEnv } from "./repair";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+const llm = new RetryingProvider(createProviderFromEnv());
+// Models to try in order until one produces a usable site
+const MODEL_CHAIN = modelChainFromEnv(llm.defaultModel);
 
-// OpenRouter API Configuration
-if (!process.env.OPENROUTER_API_KEY) {
-  throw new Error("OPENROUTER_API_KEY is missing. Check your .env file");
-}
-
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
-
-// Use the officially recommended free model from memory
-// google/gemini-2.5-flash is confirmed to work with OpenRouter
-// google/gemini-2.5-flash is confirmed to work with OpenRouter
-// google/gemini-2.5-flash is confirmed to work with OpenRouter
-const FREE_MODEL = 'google/gemini-2.5-flash';
 const MAX_TOKENS = 6000; // Decreased to safe limit to avoid 402 errors
+// Range a request may override MAX_TOKENS within
+const MAX_TOKENS_RANGE = { min: 1000, max: 16000 };
 
-// Rate limiting - track requests (adjusted for better model)
-const requestTracker = {
-  requests: [] as number[],
-  maxRequestsPerMinute: 8, // Reasonable limit for free tier
-  maxRequestsPerDay: 150,  // Daily limit for free tier
-};
-
-function canMakeRequest(): { allowed: boolean; waitTime?: number; reason?: string } {
-  const now = Date.now();
-  const oneMinuteAgo = now - 60 * 1000;
-  const oneDayAgo = now - 24 * 60 * 60 * 1000;
-
-  // Clean old requests
-  requestTracker.requests = requestTracker.requests.filter(time => time > oneDayAgo);
-
-  // Check per-minute limit
-  const recentRequests = requestTracker.requests.filter(time => time > oneMinuteAgo);
-  if (recentRequests.length >= requestTracker.maxRequestsPerMinute) {
-    const oldestRecent = Math.min(...recentRequests);
-    const waitTime = Math.ceil((oldestRecent + 60 * 1000 - now) / 1000);
-    return {
-      allowed: false,
-      waitTime,
-      reason: `Rate limit: ${requestTracker.maxRequestsPerMinute} requests/minute. Please wait ${waitTime}s.`
-    };
+// Requests may only choose from what GET /api/models publishes
+const generateBodySchema = generateRequestSchema.superRefine((body, ctx) => {
+  if (body.model && !MODEL_CHAIN.includes(body.model)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Unknown model", path: ["model"] });
+  }
+  if (body.stylePreset && !getStylePreset(body.stylePreset)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Unknown style preset", path: ["stylePreset"] });
+  }
+  if (body.maxTokens !== undefined && (body.maxTokens < MAX_TOKENS_RANGE.min || body.maxTokens > MAX_TOKENS_RANGE.max)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Max tokens must be between ${MAX_TOKENS_RANGE.min} and ${MAX_TOKENS_RANGE.max}`,
+      path: ["maxTokens"],
+    });
   }
+});
 
-  // Check daily limit
-  if (requestTracker.requests.length >= requestTracker.maxRequestsPerDay) {
-    return {
-      allowed: false,
-      reason: `Daily quota exceeded (${requestTracker.maxRequestsPerDay} requests/day). Try again tomorrow.`
-    };
+// Edited files must be paths the generator could have produced, so they survive export
+const filesBodySchema = updateFilesRequestSchema.superRefine((body, ctx) => {
+  const error = projectFilesError(body.files);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["files"] });
   }
+});
 
-  return { allowed: true };
-}
+// Follow-up requests allowed when a reply is cut off at MAX_TOKENS
+const MAX_CONTINUATION_ROUNDS = 3;
+// Fix-up requests allowed when a reply's files fail validation
+const REPAIR_ROUNDS = repairRoundsFromEnv();
 
-function trackRequest() {
-  requestTracker.requests.push(Date.now());
-}
+// Refine chains longer than this are cut off when listing a lineage
+const MAX_LINEAGE_DEPTH = 100;
+
+// Snapshots kept per generation; autosave adds one after every pause in editing
+const MAX_VERSIONS = 50;
+
+// However many saves follow, the snapshot a generation was created with stays restorable
+const PINNED_VERSION_SOURCES: VersionSource[] = ['generate', 'refine', 'fork'];
+
+// Rate limiting - per account or IP, persisted through storage
+const rateLimiter = new RateLimiter(storage);
 
 const SYSTEM_PROMPT = `You are an AI code generator. Return ONLY valid JSON. No markdown.
 FORMAT:
@@ -67,263 +93,136 @@ FORMAT:
   "files": {
     "index.html": "<html...>",
     "style.css": "<css...>",
-    "script.js": "<js...>"
+    "script.js": "<js...>",
+    "about.html": "<html...>"
   }
 }
 RULES:
 - JSON ONLY. No \`\`\` wrappers.
+- "index.html" is REQUIRED and is the home page.
+- Multi-page sites: one .html file per page (e.g. about.html, contact.html), linked with relative hrefs.
+- Paths: relative, lowercase, only .html/.css/.js files; folders allowed (e.g. css/theme.css).
+- Every page loads ALL .css and .js files, so do not add <link> or <script src> tags for them.
 - HTML: Semantic but concise.
 - CSS: MINIFIED (no whitespace/comments). Modern & responsive.
 - JS: MINIFIED (no whitespace/comments). Functional.
 - Mobile-first.
 - CRITICAL: Keep output under 7000 tokens to avoid truncation.`;
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
+const REFINE_SYSTEM_PROMPT = `You are an AI code editor. You receive the current files of a website as JSON and an instruction describing a change.
+Apply the change and return the COMPLETE updated files. Return ONLY valid JSON. No markdown.
+FORMAT:
+{
+  "files": {
+    "index.html": "<html...>",
+    "style.css": "<css...>",
+    "script.js": "<js...>",
+    "about.html": "<html...>"
+  }
+}
+RULES:
+- JSON ONLY. No \`\`\` wrappers.
+- Return every file, including unchanged ones. Add new files (e.g. new pages) if the instruction needs them.
+- Paths: relative, lowercase, only .html/.css/.js files; folders allowed (e.g. css/theme.css).
+- Only change what the instruction asks for; keep the existing design otherwise.
+- CSS and JS: MINIFIED (no whitespace/comments).`;
+
+// Call the model; the provider wrapper retries rate limits and transient failures
+function complete(request: CompletionRequest): Promise<CompletionResult> {
+  console.log(`Calling ${llm.name} with model: ${request.model || llm.defaultModel}`);
+  return llm.complete(request);
+}
 
-  // Generate website using OpenAI
-  app.post("/api/generate", async (req, res) => {
-    try {
-      // Check rate limits before processing
-      const rateLimitCheck = canMakeRequest();
-      if (!rateLimitCheck.allowed) {
-        return res.status(429).json({
-          error: rateLimitCheck.reason,
-          code: "RATE_LIMIT",
-          waitTime: rateLimitCheck.waitTime
-        });
-      }
+// Map a provider/parse error to the status, message and code the client understands
+function describeGenerationError(error: any): { status: number; error: string; code: string } {
+  const errorMessage = error?.message?.toLowerCase() || '';
 
-      const validation = generateRequestSchema.safeParse(req.body);
-      if (!validation.success) {
-        return res.status(400).json({
-          error: validation.error.errors[0]?.message || "Invalid request"
-        });
-      }
+  if (error?.code === "INVALID_FORMAT") {
+    return { status: 500, error: "AI response format error. Please retry.", code: "INVALID_FORMAT" };
+  }
 
-      const { prompt } = validation.data;
-
-      // Track this request
-      trackRequest();
-
-      // Generate content using OpenRouter API
-      // Retry logic: Try once, if 429 wait 5s and retry once more
-      let generatedText: string | undefined;
-      let lastError: any;
-
-      // Try initial request
-      try {
-        console.log(`Calling OpenRouter API with model: ${FREE_MODEL}`);
-
-        const response = await fetch(OPENROUTER_API_URL, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': 'https://teclanc.ai',
-            'X-Title': 'Teclanc AI Website Builder'
-          },
-          body: JSON.stringify({
-            model: FREE_MODEL,
-            max_tokens: MAX_TOKENS,
-            messages: [
-              {
-                role: 'system',
-                content: SYSTEM_PROMPT
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ]
-          })
-        });
+  // 429 Rate Limit - User-friendly message
+  if (errorMessage.includes('rate limit') || errorMessage.includes('quota') || error?.status === 429) {
+    return { status: 429, error: "Too many requests. Please wait 30-60 seconds and try again.", code: "RATE_LIMIT" };
+  }
 
-        // Handle HTTP errors
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          const error: any = new Error(errorData.error?.message || `HTTP ${response.status}`);
-          error.status = response.status;
-          throw error;
-        }
-
-        const data = await response.json();
-        generatedText = data.choices?.[0]?.message?.content;
-
-        if (!generatedText) {
-          throw new Error('Empty response from API');
-        }
-
-      } catch (apiError: any) {
-        lastError = apiError;
-
-        // If it's a 429 rate limit error, wait and retry ONCE
-        if (apiError?.status === 429) {
-          console.log('Rate limit (429) detected. Waiting 5 seconds before retry...');
-
-          // Wait 5 seconds
-          await new Promise(resolve => setTimeout(resolve, 5000));
-
-          // Retry once
-          try {
-            console.log('Retrying API call after rate limit...');
-
-            const retryResponse = await fetch(OPENROUTER_API_URL, {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': 'https://teclanc.ai',
-                'X-Title': 'Teclanc AI Website Builder'
-              },
-              body: JSON.stringify({
-                model: FREE_MODEL,
-                max_tokens: MAX_TOKENS,
-                messages: [
-                  {
-                    role: 'system',
-                    content: SYSTEM_PROMPT
-                  },
-                  {
-                    role: 'user',
-                    content: prompt
-                  }
-                ]
-              })
-            });
-
-            if (!retryResponse.ok) {
-              const errorData = await retryResponse.json().catch(() => ({}));
-              const error: any = new Error(errorData.error?.message || `HTTP ${retryResponse.status}`);
-              error.status = retryResponse.status;
-              throw error;
-            }
-
-            const retryData = await retryResponse.json();
-            generatedText = retryData.choices?.[0]?.message?.content;
-
-            if (!generatedText) {
-              throw new Error('Empty response from API');
-            }
-
-            console.log('Retry successful!');
-
-          } catch (retryError: any) {
-            // Retry failed, use this error
-            lastError = retryError;
-            console.error('Retry failed:', retryError.message);
-          }
-        }
-
-        // If we still don't have generated text, throw the last error
-        if (!generatedText) {
-          throw lastError;
-        }
-      }
+  if (errorMessage.includes('api key') || error?.status === 401 || error?.status === 403) {
+    return { status: 401, error: "Invalid API key. Please check your LLM provider API key configuration.", code: "INVALID_API_KEY" };
+  }
 
-      if (!generatedText) {
-        return res.status(500).json({
-          error: "AI returned empty response. Please retry.",
-          code: "EMPTY_RESPONSE"
-        });
-      }
+  if (errorMessage.includes('empty response') || error?.code === 'EMPTY_RESPONSE') {
+    return { status: 500, error: "AI returned an empty response. Please try again.", code: "EMPTY_RESPONSE" };
+  }
 
-      // STEP 1: Clean up the response - remove markdown code blocks if present
-      let cleanText = generatedText.trim();
+  return { status: 500, error: "Failed to generate website. Please try again.", code: "GENERATION_FAILED" };
+}
 
-      // Remove ```json and ``` markers
-      if (cleanText.startsWith("```json")) {
-        cleanText = cleanText.slice(7);
-      } else if (cleanText.startsWith("```")) {
-        cleanText = cleanText.slice(3);
-      }
-      if (cleanText.endsWith("```")) {
-        cleanText = cleanText.slice(0, -3);
-      }
-      cleanText = cleanText.trim();
-
-      // CRITICAL: Try to fix common JSON issues before parsing
-      // Sometimes AI returns JSON with unescaped newlines in string values
-      // This attempts to parse and stringify to normalize the JSON
-      try {
-        // If the JSON has literal newlines inside strings, they need to be escaped
-        // Attempt a lenient parse by escaping common control characters
-        const jsonWithEscapedControlChars = cleanText
-          .replace(/(?<!\\)\n/g, '\\n')  // Escape unescaped newlines
-          .replace(/(?<!\\)\r/g, '\\r')  // Escape unescaped carriage returns
-          .replace(/(?<!\\)\t/g, '\\t'); // Escape unescaped tabs
-
-        // Try parsing the cleaned version
-        JSON.parse(jsonWithEscapedControlChars);
-        cleanText = jsonWithEscapedControlChars;
-      } catch (e) {
-        // If that fails, continue with original cleanText
-        console.log('[JSON CLEANUP] Could not pre-process JSON, using as-is');
-      }
+// Look up a generation owned by the logged-in user; other users' generations look missing
+async function getOwnedGeneration(req: Request, id: string): Promise<Generation | undefined> {
+  const generation = await storage.getGeneration(id);
+  return generation && generation.userId === req.user!.id ? generation : undefined;
+}
 
-      // STEP 2: Parse JSON response with strict validation and fallback support
-      let parsedResponse: { files: { "index.html": string; "style.css": string; "script.js": string } };
-      try {
-        // First, try parsing as-is
-        const rawParsed = JSON.parse(cleanText);
-
-        // Check if it's the new format {files: {...}}
-        if (rawParsed.files && typeof rawParsed.files === 'object') {
-          parsedResponse = rawParsed;
-
-          // Validate required fields
-          if (!parsedResponse.files["index.html"] || typeof parsedResponse.files["index.html"] !== 'string') {
-            throw new Error('Missing or invalid "index.html" in files');
-          }
-
-          // Optional fields - set defaults if missing
-          if (!parsedResponse.files["style.css"]) {
-            parsedResponse.files["style.css"] = '';
-          }
-          if (!parsedResponse.files["script.js"]) {
-            parsedResponse.files["script.js"] = '';
-          }
-
-          // Fallback: Check if it's the old format {html, css, js}
-        } else if (rawParsed.html || rawParsed.css || rawParsed.js) {
-          console.log('[BACKWARD COMPAT] Converting old format to new format');
-          parsedResponse = {
-            files: {
-              "index.html": rawParsed.html || '',
-              "style.css": rawParsed.css || '',
-              "script.js": rawParsed.js || ''
-            }
-          };
-        } else {
-          throw new Error('Response does not match any expected format');
-        }
-
-      } catch (parseError: any) {
-        console.error("[JSON PARSE ERROR]", parseError.message);
-        console.error("[RAW RESPONSE]", cleanText.substring(0, 500));
-
-        return res.status(500).json({
-          error: "AI response format error. Please retry.",
-          code: "INVALID_FORMAT"
-        });
-      }
+/**
+ * Files stored as JSON (a generation's or a version's), checked like files a
+ * client saves. Rows written before paths were checked, or damaged ones, may
+ * hold files we no longer accept; the error says why.
+ */
+function parseStoredFiles(json: string): { files: ProjectFile[] } | { error: string } {
+  let files: unknown;
+  try {
+    files = JSON.parse(json);
+  } catch (error) {
+    return { error: "Stored files are not valid JSON" };
+  }
 
-      // STEP 3: Extract files and create backward-compatible structure
-      const htmlContent = parsedResponse.files["index.html"];
-      const cssContent = parsedResponse.files["style.css"] || '';
-      const jsContent = parsedResponse.files["script.js"] || '';
+  const validation = filesBodySchema.safeParse({ files });
+  if (!validation.success) {
+    return { error: validation.error.errors[0]?.message || "Invalid stored files" };
+  }
+  return { files: validation.data.files };
+}
 
-      // Extract HTML body content for storage (remove DOCTYPE, html, head, body tags if present)
-      let bodyContent = htmlContent;
-      const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-      if (bodyMatch) {
-        bodyContent = bodyMatch[1].trim();
-      }
+// Snapshot a generation's current files, unless they are unchanged since the last snapshot
+async function recordVersion(generation: Generation, source: VersionSource): Promise<void> {
+  const files = generation.files || "[]";
+  const latest = await storage.getLatestGenerationVersion(generation.id);
+  if (latest?.files === files) return;
+
+  await storage.createGenerationVersion({ generationId: generation.id, files, source });
+  await storage.pruneGenerationVersions(generation.id, MAX_VERSIONS, PINNED_VERSION_SOURCES);
+}
+
+// A parsed reply plus how it was produced: follow-up rounds, the model that succeeded, tokens and time taken
+type GenerationOutcome = {
+  files: GeneratedFiles;
+  rounds: number;
+  model: string;
+  usage?: TokenUsage;
+  latencyMs: number;
+  repairAttempts: RepairAttempt[];
+};
 
-      // STEP 4: Create combined HTML for preview (backward compatibility)
-      const combinedHtml = `<!DOCTYPE html>
+async function saveGeneration(
+  prompt: string,
+  outcome: GenerationOutcome,
+  details: { userId: string; parentId?: string }
+): Promise<Generation> {
+  // STEP 3: Validate paths and sort files by type
+  const projectFiles = toProjectFiles(outcome.files);
+  const htmlContent = projectFiles.find(f => f.name === 'index.html')?.content || '';
+  const cssContent = projectFiles.filter(f => f.type === 'css').map(f => f.content).join('\n');
+  const jsContent = projectFiles.filter(f => f.type === 'js').map(f => f.content).join('\n');
+
+  // Extract HTML body content for storage (remove DOCTYPE, html, head, body tags if present)
+  let bodyContent = htmlContent;
+  const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  if (bodyMatch) {
+    bodyContent = bodyMatch[1].trim();
+  }
+
+  // STEP 4: Create combined HTML of the home page for preview (backward compatibility)
+  const combinedHtml = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
@@ -341,63 +240,449 @@ ${jsContent}
 </body>
 </html>`;
 
-      // STEP 5: Create files array for storage
-      const projectFiles = [
-        { name: 'index.html', type: 'html', content: htmlContent },
-        { name: 'style.css', type: 'css', content: cssContent },
-        { name: 'script.js', type: 'js', content: jsContent }
-      ];
+  // STEP 5: Save every file to storage, with the first version of its history
+  const generation = await storage.createGeneration({
+    prompt,
+    generatedHtml: combinedHtml,
+    generatedCss: cssContent,
+    generatedJs: jsContent,
+    files: JSON.stringify(projectFiles),
+    diagnostics: JSON.stringify(validateProject(projectFiles)),
+    parentId: details.parentId || null,
+    userId: details.userId,
+    continuationRounds: outcome.rounds,
+    model: outcome.model,
+    promptTokens: outcome.usage?.promptTokens ?? null,
+    completionTokens: outcome.usage?.completionTokens ?? null,
+    latencyMs: outcome.latencyMs,
+    costUsd: outcome.usage ? estimateCost(outcome.model, outcome.usage) : null,
+    repairAttempts: JSON.stringify(outcome.repairAttempts)
+  });
+  await recordVersion(generation, details.parentId ? 'refine' : 'generate');
+  return generation;
+}
 
-      // STEP 6: Save to storage
-      const generation = await storage.createGeneration({
-        prompt,
-        generatedHtml: combinedHtml,
-        generatedCss: cssContent,
-        generatedJs: jsContent,
-        files: JSON.stringify(projectFiles)
-      });
+// Completion request for a validated generate body, with its style preset and sampling options applied
+function generationRequest(body: GenerateRequest, signal?: AbortSignal): CompletionRequest {
+  const preset = body.stylePreset ? getStylePreset(body.stylePreset) : undefined;
+  return {
+    maxTokens: body.maxTokens ?? MAX_TOKENS,
+    temperature: body.temperature,
+    messages: [
+      { role: 'system', content: preset ? `${SYSTEM_PROMPT}\n- STYLE: ${preset.instructions}` : SYSTEM_PROMPT },
+      { role: 'user', content: body.prompt }
+    ],
+    signal
+  };
+}
+
+// Ask the model that wrote the files to fix the errors validation finds in them; its usage and time count towards the generation
+async function repairGeneration(
+  reply: { files: GeneratedFiles; rounds: number; usage?: TokenUsage },
+  model: string,
+  request: CompletionRequest,
+  startedAt: number,
+  onRound?: (round: number) => void
+): Promise<GenerationOutcome> {
+  const repair = await repairFiles(complete, reply.files, {
+    model,
+    maxRounds: REPAIR_ROUNDS,
+    maxTokens: request.maxTokens,
+    maxContinuationRounds: MAX_CONTINUATION_ROUNDS,
+    signal: request.signal,
+    onRound,
+  });
+  return {
+    ...reply,
+    files: repair.files,
+    model,
+    usage: addUsage(reply.usage, repair.usage),
+    latencyMs: Date.now() - startedAt,
+    repairAttempts: repair.attempts,
+  };
+}
+
+// Complete a request through the model chain, falling through to the next model on failure
+async function completeGeneration(request: CompletionRequest, preferredModel?: string | null): Promise<GenerationOutcome> {
+  const startedAt = Date.now();
+  const { result, model } = await withModelFallback(resolveModelChain(MODEL_CHAIN, preferredModel), async (model) => {
+    const { content, rounds, usage } = await completeWithContinuation(complete, { ...request, model }, MAX_CONTINUATION_ROUNDS);
+    return { files: parseGenerationResponse(content).files, rounds, usage };
+  }, request.signal);
+  return repairGeneration(result, model, request, startedAt);
+}
+
+interface GenerationStreamHandlers {
+  // A model from the chain starts; anything streamed before came from a model that failed
+  onModel?: (model: string) => void;
+  onToken?: (text: string) => void;
+  onFile?: (name: string, content: string) => void;
+  onContinue?: (round: number) => void;
+  // A fix-up round starts because the files failed validation
+  onRepair?: (round: number) => void;
+}
+
+// Streaming counterpart of completeGeneration, reporting tokens and completed files as they arrive
+async function streamGeneration(
+  request: CompletionRequest,
+  preferredModel: string | null | undefined,
+  handlers: GenerationStreamHandlers
+): Promise<GenerationOutcome> {
+  const startedAt = Date.now();
+  const { result, model } = await withModelFallback(resolveModelChain(MODEL_CHAIN, preferredModel), async (model) => {
+    console.log(`Streaming from ${llm.name} with model: ${model}`);
+    handlers.onModel?.(model);
+
+    const tokens = streamWithContinuation(llm, { ...request, model }, MAX_CONTINUATION_ROUNDS, handlers.onContinue);
+    const scanner = new FileStreamScanner((name, content) => {
+      const path = normalizeProjectPath(name);
+      if (path) handlers.onFile?.(path, content);
+    });
+
+    let step = await tokens.next();
+    while (!step.done) {
+      handlers.onToken?.(step.value);
+      scanner.push(step.value);
+      step = await tokens.next();
+    }
+    const { content, rounds, usage } = step.value;
+
+    if (!content) {
+      throw emptyResponseError();
+    }
+    return { files: parseGenerationResponse(content).files, rounds, usage };
+  }, request.signal);
+  return repairGeneration(result, model, request, startedAt, handlers.onRepair);
+}
+
+// Worker for /api/jobs: streams the reply into the job's progress, and to
+// GET /api/jobs/:id/events with the same events as /api/generate/stream
+async function runGenerationJob(job: GenerationJob, signal: AbortSignal, emit: JobListener): Promise<Generation> {
+  console.log(`Running job ${job.id}`);
+
+  const outcome = await streamGeneration(generationRequest(job.request, signal), job.request.model, {
+    onModel: (model) => {
+      job.progress = { chars: 0, files: [], continuationRounds: 0, repairRound: 0, model };
+      emit("model", { model });
+    },
+    onToken: (text) => {
+      job.progress.chars += text.length;
+      emit("token", { text });
+    },
+    onFile: (name, content) => {
+      job.progress.files.push({ name, content });
+      emit("file", { name, content });
+    },
+    onContinue: (round) => {
+      job.progress.continuationRounds = round;
+      emit("continue", { round });
+    },
+    onRepair: (round) => {
+      job.progress.repairRound = round;
+      emit("repair", { round });
+    },
+  });
+
+  // Cancelled after the model finished; don't save a generation nobody is waiting for
+  if (signal.aborted) {
+    throw new Error('Job cancelled');
+  }
+
+  return saveGeneration(job.request.prompt, outcome, { userId: job.userId });
+}
+
+const jobQueue = new JobQueue(runGenerationJob, {
+  concurrency: jobConcurrencyFromEnv(),
+  describeError: (error) => {
+    const { status, ...body } = describeGenerationError(error);
+    return body;
+  },
+});
+
+// Look up a job submitted by the logged-in user; other users' jobs look missing
+function getOwnedJob(req: Request, id: string): GenerationJob | undefined {
+  const job = jobQueue.get(id);
+  return job && job.userId === req.user!.id ? job : undefined;
+}
+
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  setupAuth(app);
+
+  // Generate website using OpenAI
+  app.post("/api/generate", requireAuth, async (req, res) => {
+    try {
+      const validation = generateBodySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
+        });
+      }
+
+      const body = validation.data;
+
+      // Counts against the quota only once the request is valid
+      const rateLimitCheck = await rateLimiter.consume(rateLimitKey(req));
+      if (!rateLimitCheck.allowed) {
+        return res.status(429).json({
+          error: rateLimitCheck.reason,
+          code: "RATE_LIMIT",
+          waitTime: rateLimitCheck.waitTime
+        });
+      }
 
+      const outcome = await completeGeneration(generationRequest(body), body.model);
+
+      const generation = await saveGeneration(body.prompt, outcome, { userId: req.user!.id });
       return res.json(generation);
     } catch (error: any) {
       console.error("Generation error:", error);
+      const { status, ...body } = describeGenerationError(error);
+      return res.status(status).json(body);
+    }
+  });
 
-      // Handle specific API errors
-      const errorMessage = error?.message?.toLowerCase() || '';
+  // Generate website, streaming tokens and completed files as server-sent events
+  app.post("/api/generate/stream", requireAuth, async (req, res) => {
+    const validation = generateBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: validation.error.errors[0]?.message || "Invalid request"
+      });
+    }
 
-      // 429 Rate Limit - User-friendly message
-      if (errorMessage.includes('rate limit') || errorMessage.includes('quota') || error?.status === 429) {
+    const body = validation.data;
+
+    try {
+      const rateLimitCheck = await rateLimiter.consume(rateLimitKey(req));
+      if (!rateLimitCheck.allowed) {
+        return res.status(429).json({
+          error: rateLimitCheck.reason,
+          code: "RATE_LIMIT",
+          waitTime: rateLimitCheck.waitTime
+        });
+      }
+    } catch (error: any) {
+      console.error("Rate limit error:", error);
+      return res.status(500).json({ error: "Failed to generate website. Please try again.", code: "GENERATION_FAILED" });
+    }
+
+    // Stop generating (and paying for tokens) if the browser goes away
+    const abortController = new AbortController();
+    res.on("close", () => abortController.abort());
+
+    startEventStream(res);
+
+    try {
+      const outcome = await streamGeneration(generationRequest(body, abortController.signal), body.model, {
+        onModel: (model) => sendEvent(res, "model", { model }),
+        onToken: (text) => sendEvent(res, "token", { text }),
+        onFile: (name, content) => sendEvent(res, "file", { name, content }),
+        onContinue: (round) => sendEvent(res, "continue", { round }),
+        onRepair: (round) => sendEvent(res, "repair", { round }),
+      });
+
+      const generation = await saveGeneration(body.prompt, outcome, { userId: req.user!.id });
+      sendEvent(res, "done", generation);
+    } catch (error: any) {
+      if (abortController.signal.aborted) return;
+      console.error("Streaming generation error:", error);
+      const { status, ...body } = describeGenerationError(error);
+      sendEvent(res, "error", body);
+    } finally {
+      res.end();
+    }
+  });
+
+  // Queue a generation to run in the background; follow GET /api/jobs/:id/events or poll GET /api/jobs/:id for the result
+  app.post("/api/jobs", requireAuth, async (req, res) => {
+    try {
+      const validation = generateBodySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
+        });
+      }
+
+      const rateLimitCheck = await rateLimiter.consume(rateLimitKey(req));
+      if (!rateLimitCheck.allowed) {
         return res.status(429).json({
-          error: "Too many requests. Please wait 30-60 seconds and try again.",
-          code: "RATE_LIMIT"
+          error: rateLimitCheck.reason,
+          code: "RATE_LIMIT",
+          waitTime: rateLimitCheck.waitTime
         });
       }
 
-      if (errorMessage.includes('api key') || error?.status === 401 || error?.status === 403) {
-        return res.status(401).json({
-          error: "Invalid API key. Please check your OpenRouter API key configuration.",
-          code: "INVALID_API_KEY"
+      const job = jobQueue.submit(req.user!.id, validation.data);
+      return res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Error submitting job:", error);
+      return res.status(500).json({ error: "Failed to generate website. Please try again.", code: "GENERATION_FAILED" });
+    }
+  });
+
+  // Status, progress and (once succeeded) the saved generation of a job
+  app.get("/api/jobs/:id", requireAuth, (req, res) => {
+    const job = getOwnedJob(req, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    return res.json(job);
+  });
+
+  // A job's progress as server-sent events: a "job" event with the whole job on
+  // connect and whenever its status changes, and model/token/file/continue/repair
+  // events while it runs. The stream ends once the job has finished
+  app.get("/api/jobs/:id/events", requireAuth, (req, res) => {
+    const job = getOwnedJob(req, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    startEventStream(res);
+    sendEvent(res, "job", job);
+    if (isFinished(job)) {
+      return res.end();
+    }
+
+    const unsubscribe = jobQueue.subscribe(job.id, (event, data) => {
+      sendEvent(res, event, data);
+      if (event === "job" && isFinished(data as GenerationJob)) res.end();
+    });
+    res.on("close", unsubscribe);
+  });
+
+  // Cancel a queued or running job
+  app.delete("/api/jobs/:id", requireAuth, (req, res) => {
+    if (!getOwnedJob(req, req.params.id)) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    return res.json(jobQueue.cancel(req.params.id));
+  });
+
+  // Refine an existing generation with a follow-up instruction, saving the result as a child
+  app.post("/api/generations/:id/refine", requireAuth, async (req, res) => {
+    try {
+      const validation = refineRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
         });
       }
 
-      if (errorMessage.includes('empty response') || error?.code === 'EMPTY_RESPONSE') {
-        return res.status(500).json({
-          error: "AI returned an empty response. Please try again.",
-          code: "EMPTY_RESPONSE"
+      const parent = await getOwnedGeneration(req, req.params.id);
+      if (!parent) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+
+      const { instruction } = validation.data;
+      const rateLimitCheck = await rateLimiter.consume(rateLimitKey(req));
+      if (!rateLimitCheck.allowed) {
+        return res.status(429).json({
+          error: rateLimitCheck.reason,
+          code: "RATE_LIMIT",
+          waitTime: rateLimitCheck.waitTime
         });
       }
 
-      return res.status(500).json({
-        error: "Failed to generate website. Please try again.",
-        code: "GENERATION_FAILED"
+      const currentFiles = Object.fromEntries(
+        getProjectFiles(parent).map(file => [file.name, file.content])
+      );
+
+      // Prefer the model that produced the generation being refined
+      const outcome = await completeGeneration({
+        maxTokens: MAX_TOKENS,
+        messages: [
+          { role: 'system', content: REFINE_SYSTEM_PROMPT },
+          { role: 'user', content: `CURRENT FILES:\n${JSON.stringify({ files: currentFiles })}\n\nINSTRUCTION:\n${instruction}` }
+        ]
+      }, parent.model);
+
+      const generation = await saveGeneration(instruction, outcome, {
+        userId: req.user!.id,
+        parentId: parent.id
       });
+      return res.json(generation);
+    } catch (error: any) {
+      console.error("Refinement error:", error);
+      const { status, ...body } = describeGenerationError(error);
+      return res.status(status).json(body);
+    }
+  });
+
+  // Models (in fallback order) and parameters a generation can be started with
+  app.get("/api/models", requireAuth, (req, res) => {
+    const response: ModelsResponse = {
+      models: MODEL_CHAIN,
+      default: MODEL_CHAIN[0],
+      stylePresets: listStylePresets(),
+      temperature: TEMPERATURE_RANGE,
+      maxTokens: { ...MAX_TOKENS_RANGE, default: MAX_TOKENS },
+    };
+    return res.json(response);
+  });
+
+  // Tokens, cost and latency of the user's generations over the last `days` days (default 30)
+  app.get("/api/usage", requireAuth, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(String(req.query.days || "30"), 10) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const rows = await storage.getGenerationUsage(req.user!.id, since);
+      return res.json(summarizeUsage(rows, since));
+    } catch (error: any) {
+      console.error("Error fetching usage:", error);
+      return res.status(500).json({ error: "Failed to fetch usage" });
     }
   });
 
-  // Get all generations
-  app.get("/api/generations", async (req, res) => {
+  // Remaining requests for the caller (per account when logged in, otherwise per IP)
+  app.get("/api/quota", async (req, res) => {
     try {
-      const generations = await storage.getGenerations();
-      return res.json(generations);
+      const quota = await rateLimiter.getQuota(rateLimitKey(req));
+      return res.json(quota);
+    } catch (error: any) {
+      console.error("Error fetching quota:", error);
+      return res.status(500).json({ error: "Failed to fetch quota" });
+    }
+  });
+
+  // Search the user's generations a page at a time (see generationQuerySchema)
+  app.get("/api/generations", requireAuth, async (req, res) => {
+    try {
+      const validation = generationQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
+        });
+      }
+
+      const { q, from, to, sort, tag, starred, cursor, limit } = validation.data;
+      const after = cursor ? decodeCursor(cursor) : undefined;
+      if (cursor && !after) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      // One extra row tells whether another page follows
+      const rows = await storage.searchGenerations({
+        userId: req.user!.id,
+        text: q,
+        from,
+        to,
+        tag,
+        starred,
+        sort,
+        after,
+        limit: limit + 1
+      });
+      const items = rows.slice(0, limit);
+      const last = items[items.length - 1];
+      const page: GenerationPage = {
+        items,
+        nextCursor: rows.length > limit ? encodeCursor(last) : null,
+      };
+      return res.json(page);
     } catch (error: any) {
       console.error("Error fetching generations:", error);
       return res.status(500).json({ error: "Failed to fetch generations" });
@@ -405,9 +690,9 @@ ${jsContent}
   });
 
   // Get single generation
-  app.get("/api/generations/:id", async (req, res) => {
+  app.get("/api/generations/:id", requireAuth, async (req, res) => {
     try {
-      const generation = await storage.getGeneration(req.params.id);
+      const generation = await getOwnedGeneration(req, req.params.id);
       if (!generation) {
         return res.status(404).json({ error: "Generation not found" });
       }
@@ -418,10 +703,164 @@ ${jsContent}
     }
   });
 
+  // The generation and the generations it was refined from, oldest first
+  app.get("/api/generations/:id/lineage", requireAuth, async (req, res) => {
+    try {
+      const generation = await getOwnedGeneration(req, req.params.id);
+      if (!generation) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+
+      const lineage = [generation];
+      while (lineage[0].parentId && lineage.length < MAX_LINEAGE_DEPTH) {
+        const parent = await getOwnedGeneration(req, lineage[0].parentId);
+        if (!parent) break; // Deleted since
+        lineage.unshift(parent);
+      }
+      return res.json(lineage);
+    } catch (error: any) {
+      console.error("Error fetching lineage:", error);
+      return res.status(500).json({ error: "Failed to fetch lineage" });
+    }
+  });
+
+  // Rename, tag or star a generation
+  app.patch("/api/generations/:id", requireAuth, async (req, res) => {
+    try {
+      const validation = updateGenerationRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
+        });
+      }
+
+      if (!(await getOwnedGeneration(req, req.params.id))) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+
+      const generation = await storage.updateGenerationMetadata(req.params.id, validation.data);
+      return res.json(generation);
+    } catch (error: any) {
+      console.error("Error updating generation:", error);
+      return res.status(500).json({ error: "Failed to update generation" });
+    }
+  });
+
+  // Save edited files of a generation
+  app.put("/api/generations/:id/files", requireAuth, async (req, res) => {
+    try {
+      const validation = filesBodySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
+        });
+      }
+
+      if (!(await getOwnedGeneration(req, req.params.id))) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+
+      const files = validation.data.files;
+      const generation = await storage.updateGenerationFiles(req.params.id, files, validateProject(files));
+      if (generation) await recordVersion(generation, 'save');
+      return res.json(generation);
+    } catch (error: any) {
+      console.error("Error saving files:", error);
+      return res.status(500).json({ error: "Failed to save files" });
+    }
+  });
+
+  // Check files without saving them, e.g. the formatted or unsaved files shown in the editor
+  app.post("/api/validate", requireAuth, async (req, res) => {
+    try {
+      const validation = filesBodySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: validation.error.errors[0]?.message || "Invalid request"
+        });
+      }
+
+      return res.json(validateProject(validation.data.files));
+    } catch (error: any) {
+      console.error("Error validating files:", error);
+      return res.status(500).json({ error: "Failed to validate files" });
+    }
+  });
+
+  // Copy a generation's current files into a new project, leaving the original untouched
+  app.post("/api/generations/:id/fork", requireAuth, async (req, res) => {
+    try {
+      const source = await getOwnedGeneration(req, req.params.id);
+      if (!source) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+      const stored = parseStoredFiles(source.files || "[]");
+      if ("error" in stored) {
+        return res.status(400).json({ error: stored.error });
+      }
+
+      const generation = await storage.createGeneration({
+        prompt: source.prompt,
+        title: source.title && `${source.title} (copy)`,
+        tags: source.tags,
+        generatedHtml: source.generatedHtml,
+        generatedCss: source.generatedCss,
+        generatedJs: source.generatedJs,
+        files: source.files,
+        diagnostics: source.diagnostics,
+        userId: req.user!.id,
+        model: source.model,
+        forkedFrom: source.id
+      });
+      await recordVersion(generation, 'fork');
+      return res.json(generation);
+    } catch (error: any) {
+      console.error("Error duplicating generation:", error);
+      return res.status(500).json({ error: "Failed to duplicate generation" });
+    }
+  });
+
+  // Snapshots of a generation's files, newest (the current files) first
+  app.get("/api/generations/:id/versions", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedGeneration(req, req.params.id))) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+
+      const versions = await storage.getGenerationVersions(req.params.id);
+      return res.json(versions);
+    } catch (error: any) {
+      console.error("Error fetching versions:", error);
+      return res.status(500).json({ error: "Failed to fetch versions" });
+    }
+  });
+
+  // Make an earlier snapshot the generation's current files; recorded as a new version
+  app.post("/api/generations/:id/versions/:versionId/restore", requireAuth, async (req, res) => {
+    try {
+      const version = await storage.getGenerationVersion(req.params.versionId);
+      if (!(await getOwnedGeneration(req, req.params.id)) || version?.generationId !== req.params.id) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      const stored = parseStoredFiles(version.files);
+      if ("error" in stored) {
+        return res.status(400).json({ error: stored.error });
+      }
+      const files = stored.files;
+      const generation = await storage.updateGenerationFiles(req.params.id, files, validateProject(files));
+      if (generation) await recordVersion(generation, 'restore');
+      return res.json(generation);
+    } catch (error: any) {
+      console.error("Error restoring version:", error);
+      return res.status(500).json({ error: "Failed to restore version" });
+    }
+  });
+
   // Delete generation
-  app.delete("/api/generations/:id", async (req, res) => {
+  app.delete("/api/generations/:id", requireAuth, async (req, res) => {
     try {
-      const deleted = await storage.deleteGeneration(req.params.id);
+      const deleted = (await getOwnedGeneration(req, req.params.id)) && await storage.deleteGeneration(req.params.id);
       if (!deleted) {
         return res.status(404).json({ error: "Generation not found" });
       }
@@ -432,35 +871,18 @@ ${jsContent}
     }
   });
 
-  // Download generation as ZIP
-  app.get("/api/download/:id", async (req, res) => {
+  // Download generation as ZIP; ?minify=true adds a production build next to the source
+  app.get("/api/download/:id", requireAuth, async (req, res) => {
     try {
-      const generation = await storage.getGeneration(req.params.id);
+      const generation = await getOwnedGeneration(req, req.params.id);
       if (!generation) {
         return res.status(404).json({ error: "Generation not found" });
       }
 
-      // Extract HTML body content (remove DOCTYPE, html, head, body tags)
-      let htmlContent = generation.generatedHtml;
-      const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-      if (bodyMatch) {
-        htmlContent = bodyMatch[1].trim();
-      }
-
-      // Create index.html with proper links
-      const indexHtml = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Generated Website</title>
-  <link rel="stylesheet" href="style.css">
-</head>
-<body>
-${htmlContent}
-  <script src="script.js"></script>
-</body>
-</html>`;
+      // Export the full project tree, including edits and nested folders
+      const files = prepareExportFiles(getProjectFiles(generation));
+      // Built before any headers go out, so a failure still gets a JSON error
+      const bundle = req.query.minify === "true" ? await buildBundle(files) : undefined;
 
       // Set response headers
       res.setHeader('Content-Type', 'application/zip');
@@ -474,10 +896,15 @@ ${htmlContent}
       // Pipe archive to response
       archive.pipe(res);
 
-      // Add files to ZIP
-      archive.append(indexHtml, { name: 'index.html' });
-      archive.append(generation.generatedCss || '/* No CSS generated */', { name: 'style.css' });
-      archive.append(generation.generatedJs || '// No JavaScript generated', { name: 'script.js' });
+      // Add files to ZIP, keeping their folder structure
+      const sourcePrefix = bundle ? `${SOURCE_DIR}/` : '';
+      for (const file of files) {
+        archive.append(file.content, { name: sourcePrefix + file.name });
+      }
+      for (const file of bundle?.files ?? []) {
+        archive.append(file.content, { name: `${BUNDLE_DIR}/${file.name}` });
+      }
+      archive.append(JSON.stringify(buildManifest(generation, files, bundle), null, 2), { name: 'manifest.json' });
 
       // Finalize the archive
       await archive.finalize();
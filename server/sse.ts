@@ -0,0 +1,153 @@
+import type { Response } from "express";
+import type { StreamEnd } from "./llm";
+import { parseUsage } from "./usage";
+
+// Legacy top-level keys the model sometimes uses instead of {files: {...}}
+const LEGACY_FILE_NAMES: Record<string, string> = {
+  html: "index.html",
+  css: "style.css",
+  js: "script.js",
+};
+
+export function startEventStream(res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering
+  res.flushHeaders();
+}
+
+export function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Yields content deltas from an OpenAI-style chat completion SSE stream and
+// returns the last finish_reason and usage block seen
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string, StreamEnd> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const end: StreamEnd = {};
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+
+        // Skip blank lines and SSE comments (OpenRouter sends ": OPENROUTER PROCESSING")
+        if (!line.startsWith("data:")) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return end;
+
+        const chunk = JSON.parse(payload);
+        if (chunk.error) {
+          const error: any = new Error(chunk.error.message || "Stream error");
+          error.status = chunk.error.code;
+          throw error;
+        }
+
+        end.finishReason = chunk.choices?.[0]?.finish_reason || end.finishReason;
+        // Usually sent on a final chunk with no choices
+        end.usage = parseUsage(chunk.usage) || end.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+    return end;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Incrementally scans the model's JSON output and reports each file as soon as
+ * its string value is closed, so the client can render files before the whole
+ * response has arrived.
+ */
+export class FileStreamScanner {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private buffer = "";
+  private lastString: string | null = null;
+  private pendingKey: string | null = null;
+
+  constructor(private onFile: (name: string, content: string) => void) {}
+
+  push(text: string) {
+    for (const char of text) {
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+          this.buffer += char;
+        } else if (char === "\\") {
+          this.escaped = true;
+          this.buffer += char;
+        } else if (char === '"') {
+          this.inString = false;
+          this.closeString();
+        } else {
+          this.buffer += char;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.buffer = "";
+          break;
+        case "{":
+          this.depth++;
+          this.pendingKey = null;
+          break;
+        case "}":
+          this.depth--;
+          break;
+        case ":":
+          this.pendingKey = this.lastString;
+          break;
+        case ",":
+          this.pendingKey = null;
+          break;
+      }
+    }
+  }
+
+  private closeString() {
+    const key = this.pendingKey;
+    this.pendingKey = null;
+
+    if (key === null) {
+      this.lastString = this.buffer;
+      return;
+    }
+
+    let name: string | undefined;
+    if (this.depth === 2) {
+      name = key;
+    } else if (this.depth === 1) {
+      name = LEGACY_FILE_NAMES[key];
+    }
+    if (!name) return;
+
+    // Models sometimes emit raw newlines/tabs inside strings, escape them first
+    const literal = this.buffer
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r")
+      .replace(/\t/g, "\\t");
+
+    try {
+      this.onFile(name, JSON.parse(`"${literal}"`));
+    } catch (e) {
+      // Leave malformed values to the final parse
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { InsertGeneration, ProjectFile } from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load its own CommonJS dependencies, so take the CJS one
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+const MINUTE_MS = 60 * 1000;
+
+// Gives rows created one after another distinct timestamps, so their order is known
+const tick = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+const files: ProjectFile[] = [{ name: "index.html", type: "html", content: "<h1>Bakery</h1>" }];
+
+function generation(userId: string, changes: Partial<InsertGeneration> = {}): InsertGeneration {
+  return {
+    prompt: "A landing page",
+    generatedHtml: "<h1>Bakery</h1>",
+    files: JSON.stringify(files),
+    userId,
+    ...changes,
+  };
+}
+
+/**
+ * The behaviour every IStorage must share. MemStorage stands in for Postgres
+ * in development, so both run the same cases to keep them from drifting apart.
+ */
+function storageContract(name: string, open: () => Promise<{ storage: IStorage; close(): Promise<void> }>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, close } = await open());
+    });
+    after(() => close());
+
+    async function createUser(username: string) {
+      return storage.createUser({ username, password: "hash" });
+    }
+
+    test("creates and finds users", async () => {
+      const user = await createUser("alice");
+
+      assert.deepEqual(await storage.getUser(user.id), user);
+      assert.deepEqual(await storage.getUserByUsername("alice"), user);
+      assert.equal(await storage.getUser("missing"), undefined);
+      assert.equal(await storage.getUserByUsername("nobody"), undefined);
+    });
+
+    test("fills in defaults for new generations", async () => {
+      const user = await createUser("defaults");
+      const created = await storage.createGeneration(generation(user.id));
+
+      assert.equal(created.title, null);
+      assert.deepEqual(created.tags, []);
+      assert.equal(created.starred, false);
+      assert.equal(created.parentId, null);
+      assert.equal(created.forkedFrom, null);
+      assert.equal(created.continuationRounds, 0);
+      assert.equal(created.promptTokens, null);
+      assert.equal(created.diagnostics, null);
+      assert.equal(created.repairAttempts, null);
+      assert.ok(created.createdAt instanceof Date);
+      assert.deepEqual(await storage.getGeneration(created.id), created);
+    });
+
+    test("replaces files together with their diagnostics", async () => {
+      const user = await createUser("editor");
+      const created = await storage.createGeneration(generation(user.id));
+      const edited: ProjectFile[] = [...files, { name: "style.css", type: "css", content: "h1{color:red}" }];
+
+      const updated = await storage.updateGenerationFiles(created.id, edited, []);
+
+      assert.equal(updated?.files, JSON.stringify(edited));
+      assert.equal(updated?.diagnostics, "[]");
+      assert.deepEqual(await storage.getGeneration(created.id), updated);
+      assert.equal(await storage.updateGenerationFiles("missing", edited, []), undefined);
+    });
+
+    test("updates only the metadata it is given", async () => {
+      const user = await createUser("curator");
+      const created = await storage.createGeneration(generation(user.id, { title: "Bakery" }));
+
+      const starred = await storage.updateGenerationMetadata(created.id, { starred: true });
+      assert.equal(starred?.title, "Bakery");
+      assert.equal(starred?.starred, true);
+
+      const retagged = await storage.updateGenerationMetadata(created.id, { title: null, tags: ["food", "shop"] });
+      assert.equal(retagged?.title, null);
+      assert.deepEqual(retagged?.tags, ["food", "shop"]);
+      assert.equal(retagged?.starred, true);
+
+      assert.equal(await storage.updateGenerationMetadata("missing", { starred: true }), undefined);
+    });
+
+    test("searches a user's generations by text, tag and star", async () => {
+      const user = await createUser("searcher");
+      const other = await createUser("someone-else");
+      const bakery = await storage.createGeneration(generation(user.id, { prompt: "A bakery landing page" }));
+      await tick();
+      const portfolio = await storage.createGeneration(generation(user.id, {
+        prompt: "Photo portfolio",
+        title: "My 100% portfolio",
+        tags: ["work"],
+        starred: true,
+      }));
+      await storage.createGeneration(generation(other.id, { prompt: "A bakery landing page" }));
+
+      const search = async (changes: Partial<Parameters<IStorage["searchGenerations"]>[0]>) =>
+        (await storage.searchGenerations({ userId: user.id, sort: "oldest", limit: 10, ...changes })).map((g) => g.id);
+
+      assert.deepEqual(await search({}), [bakery.id, portfolio.id]);
+      assert.deepEqual(await search({ text: "BAKERY landing" }), [bakery.id]);
+      assert.deepEqual(await search({ text: "landing photo" }), []);
+      // Matches the file contents too
+      assert.deepEqual(await search({ text: "<h1>bakery" }), [bakery.id, portfolio.id]);
+      // LIKE wildcards in the search text are literal
+      assert.deepEqual(await search({ text: "100%" }), [portfolio.id]);
+      assert.deepEqual(await search({ text: "1_0" }), []);
+      assert.deepEqual(await search({ tag: "work" }), [portfolio.id]);
+      assert.deepEqual(await search({ starred: true }), [portfolio.id]);
+      assert.deepEqual(await search({ starred: false }), [bakery.id]);
+      assert.deepEqual(await search({ from: new Date(Date.now() + MINUTE_MS) }), []);
+      assert.deepEqual(await search({ to: new Date(Date.now() - MINUTE_MS) }), []);
+      assert.deepEqual(await search({ sort: "newest" }), [portfolio.id, bakery.id]);
+    });
+
+    test("pages through search results with a cursor", async () => {
+      const user = await createUser("pager");
+      const created = [];
+      for (let i = 0; i < 5; i++) {
+        created.push(await storage.createGeneration(generation(user.id, { prompt: `Page ${i}` })));
+        await tick();
+      }
+
+      for (const sort of ["newest", "oldest"] as const) {
+        const seen: string[] = [];
+        let page = await storage.searchGenerations({ userId: user.id, sort, limit: 2 });
+        while (page.length > 0) {
+          seen.push(...page.map((g) => g.id));
+          const last = page[page.length - 1];
+          page = await storage.searchGenerations({
+            userId: user.id,
+            sort,
+            limit: 2,
+            after: { createdAt: last.createdAt, id: last.id },
+          });
+        }
+
+        const expected = created.map((g) => g.id);
+        assert.deepEqual(seen, sort === "oldest" ? expected : expected.reverse());
+      }
+    });
+
+    test("deletes a generation with its versions", async () => {
+      const user = await createUser("deleter");
+      const created = await storage.createGeneration(generation(user.id));
+      const version = await storage.createGenerationVersion({
+        generationId: created.id,
+        files: JSON.stringify(files),
+        source: "generate",
+      });
+
+      assert.equal(await storage.deleteGeneration(created.id), true);
+      assert.equal(await storage.getGeneration(created.id), undefined);
+      assert.equal(await storage.getGenerationVersion(version.id), undefined);
+      assert.deepEqual(await storage.getGenerationVersions(created.id), []);
+      assert.equal(await storage.getLatestGenerationVersion(created.id), undefined);
+      assert.equal(await storage.deleteGeneration(created.id), false);
+    });
+
+    test("lists versions newest first and prunes the oldest", async (t) => {
+      const user = await createUser("versioner");
+      const created = await storage.createGeneration(generation(user.id));
+      // Saves can land in the same millisecond; they must still keep their order
+      t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+      const versions = [];
+      for (const source of ["generate", "save", "save", "restore"] as const) {
+        versions.push(await storage.createGenerationVersion({ generationId: created.id, files: "[]", source }));
+      }
+      t.mock.timers.reset();
+
+      const listed = await storage.getGenerationVersions(created.id);
+      assert.deepEqual(listed.map((v) => v.id), versions.map((v) => v.id).reverse());
+      assert.deepEqual(await storage.getLatestGenerationVersion(created.id), versions[3]);
+      assert.deepEqual(await storage.getGenerationVersion(versions[0].id), versions[0]);
+
+      await storage.pruneGenerationVersions(created.id, 2);
+      const kept = await storage.getGenerationVersions(created.id);
+      assert.deepEqual(kept.map((v) => v.id), [versions[3].id, versions[2].id]);
+    });
+
+    test("keeps the newest version of pinned sources when pruning", async () => {
+      const user = await createUser("autosaver");
+      const created = await storage.createGeneration(generation(user.id));
+      const versions = [];
+      for (const source of ["generate", "save", "generate", "save", "save", "save"] as const) {
+        versions.push(await storage.createGenerationVersion({ generationId: created.id, files: "[]", source }));
+      }
+
+      await storage.pruneGenerationVersions(created.id, 2, ["generate", "refine"]);
+      const kept = await storage.getGenerationVersions(created.id);
+      assert.deepEqual(kept.map((v) => v.id), [versions[5].id, versions[4].id, versions[2].id]);
+    });
+
+    test("reports usage of a user's recent generations", async () => {
+      const user = await createUser("spender");
+      const since = new Date(Date.now() - MINUTE_MS);
+      await storage.createGeneration(generation(user.id, {
+        model: "test/model",
+        promptTokens: 100,
+        completionTokens: 200,
+        latencyMs: 1500,
+        costUsd: 0.25,
+        repairAttempts: "[]",
+      }));
+
+      const [row, ...rest] = await storage.getGenerationUsage(user.id, since);
+      assert.deepEqual(rest, []);
+      assert.deepEqual({ ...row, createdAt: undefined }, {
+        createdAt: undefined,
+        model: "test/model",
+        promptTokens: 100,
+        completionTokens: 200,
+        latencyMs: 1500,
+        costUsd: 0.25,
+        repairAttempts: "[]",
+      });
+      assert.deepEqual(await storage.getGenerationUsage(user.id, new Date(Date.now() + MINUTE_MS)), []);
+    });
+
+    test("records, reads and prunes rate limit events per key", async () => {
+      const now = Date.now();
+      const old = new Date(now - 10 * MINUTE_MS);
+      const recent = new Date(now - MINUTE_MS);
+      await storage.recordRateLimitEvent("user:limits", old);
+      await storage.recordRateLimitEvent("user:limits", recent);
+      await storage.recordRateLimitEvent("ip:127.0.0.1", recent);
+
+      assert.deepEqual(await storage.getRateLimitEvents("user:limits", new Date(0)), [old, recent]);
+      assert.deepEqual(await storage.getRateLimitEvents("user:limits", recent), [recent]);
+
+      await storage.pruneRateLimitEvents("user:limits", recent);
+      assert.deepEqual(await storage.getRateLimitEvents("user:limits", new Date(0)), [recent]);
+      assert.deepEqual(await storage.getRateLimitEvents("ip:127.0.0.1", new Date(0)), [recent]);
+    });
+
+    test("records rate limit events only while every window has room", async () => {
+      const now = Date.now();
+      const windows = [
+        { since: new Date(now - MINUTE_MS), limit: 3 },
+        { since: new Date(now - 60 * MINUTE_MS), limit: 4 },
+      ];
+      await storage.recordRateLimitEvent("user:windows", new Date(now - 30 * MINUTE_MS));
+
+      // Started together, as concurrent requests would be
+      const recorded = await Promise.all(
+        Array.from({ length: 5 }, () => storage.recordRateLimitEventWithin("user:windows", new Date(now), windows)),
+      );
+
+      // The hour window fills up first: one old event plus three new ones
+      assert.equal(recorded.filter(Boolean).length, 3);
+      assert.equal((await storage.getRateLimitEvents("user:windows", new Date(0))).length, 4);
+      assert.equal(await storage.recordRateLimitEventWithin("user:other", new Date(now), windows), true);
+    });
+  });
+}
+
+storageContract("MemStorage", async () => ({
+  storage: new MemStorage(),
+  close: async () => {},
+}));
+
+storageContract("DbStorage (PGlite)", async () => {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return {
+    storage: new DbStorage(drizzle(client, { schema })),
+    close: () => client.close(),
+  };
+});
@@ -1,24 +1,104 @@
-import { type User, type InsertUser, type Generation, type InsertGeneration } from "@shared/schema";
+import { type User, type InsertUser, type Generation, type InsertGeneration, type UpdateGenerationRequest, type GenerationUsageRow, type GenerationVersion, type InsertGenerationVersion, type VersionSource, type ProjectFile, type Diagnostic, users, generations, generationVersions, rateLimitEvents } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, arrayContains, asc, desc, eq, gt, gte, ilike, inArray, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, createPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+function createMemorySessionStore(): session.Store {
+  return new MemoryStore({
+    checkPeriod: 24 * 60 * 60 * 1000, // Prune expired sessions daily
+  });
+}
+
+// Sort position of the last generation on a page; the next page starts after it
+export type GenerationCursor = { createdAt: Date; id: string };
+
+export interface GenerationSearch {
+  userId: string;
+  // Every whitespace-separated term must appear in the title, prompt or files (case-insensitive)
+  text?: string;
+  from?: Date;
+  to?: Date;
+  tag?: string;
+  starred?: boolean;
+  sort: 'newest' | 'oldest';
+  after?: GenerationCursor;
+  limit: number;
+}
+
+// A sliding window of rate limit events: at most `limit` events after `since`
+export type RateLimitWindow = { since: Date; limit: number };
+
+function searchTerms(text: string | undefined): string[] {
+  return (text || "").toLowerCase().split(/\s+/).filter(Boolean);
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
-  getGenerations(): Promise<Generation[]>;
+  // A user's generations matching the search, ordered by creation time then id
+  searchGenerations(search: GenerationSearch): Promise<Generation[]>;
   getGeneration(id: string): Promise<Generation | undefined>;
   createGeneration(generation: InsertGeneration): Promise<Generation>;
+  // Diagnostics are those of the new files, so the stored report never describes older content
+  updateGenerationFiles(id: string, files: ProjectFile[], diagnostics: Diagnostic[]): Promise<Generation | undefined>;
+  updateGenerationMetadata(id: string, changes: UpdateGenerationRequest): Promise<Generation | undefined>;
   deleteGeneration(id: string): Promise<boolean>;
+  // Usage fields of a user's generations created at or after `since`
+  getGenerationUsage(userId: string, since: Date): Promise<GenerationUsageRow[]>;
+
+  // Versions are listed newest first and deleted with their generation
+  createGenerationVersion(version: InsertGenerationVersion): Promise<GenerationVersion>;
+  getGenerationVersions(generationId: string): Promise<GenerationVersion[]>;
+  getLatestGenerationVersion(generationId: string): Promise<GenerationVersion | undefined>;
+  getGenerationVersion(id: string): Promise<GenerationVersion | undefined>;
+  // Delete all but the newest `keep` versions of a generation; the newest
+  // version from each of the `pinned` sources is kept as well
+  pruneGenerationVersions(generationId: string, keep: number, pinned?: VersionSource[]): Promise<void>;
+
+  recordRateLimitEvent(key: string, at: Date): Promise<void>;
+  // Record an event unless one of the windows is already full. Checking and
+  // recording are one atomic step per key, so concurrent requests can't overshoot
+  recordRateLimitEventWithin(key: string, at: Date, windows: RateLimitWindow[]): Promise<boolean>;
+  getRateLimitEvents(key: string, since: Date): Promise<Date[]>;
+  pruneRateLimitEvents(key: string, before: Date): Promise<void>;
+}
+
+// Ids of the versions (newest first) that pruneGenerationVersions deletes
+function staleVersionIds(versions: Pick<GenerationVersion, 'id' | 'source'>[], keep: number, pinned: VersionSource[]): string[] {
+  const pinnedIds = new Set(
+    pinned.flatMap((source) => versions.find((version) => version.source === source)?.id ?? []),
+  );
+  return versions
+    .slice(keep)
+    .filter((version) => !pinnedIds.has(version.id))
+    .map((version) => version.id);
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private generations: Map<string, Generation>;
+  private versions: Map<string, GenerationVersion>;
+  private versionSequence: number;
+  private rateLimitEvents: Map<string, Date[]>;
+  readonly sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.generations = new Map();
+    this.versions = new Map();
+    this.versionSequence = 0;
+    this.rateLimitEvents = new Map();
+    this.sessionStore = createMemorySessionStore();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -38,11 +118,26 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async getGenerations(): Promise<Generation[]> {
-    const generations = Array.from(this.generations.values());
-    return generations.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+  async searchGenerations(search: GenerationSearch): Promise<Generation[]> {
+    const terms = searchTerms(search.text);
+    const direction = search.sort === "oldest" ? 1 : -1;
+    const compare = (a: GenerationCursor, b: GenerationCursor) =>
+      direction * (a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id));
+
+    return Array.from(this.generations.values())
+      .filter((generation) => {
+        if (generation.userId !== search.userId) return false;
+        if (search.from && generation.createdAt < search.from) return false;
+        if (search.to && generation.createdAt > search.to) return false;
+        if (search.tag && !generation.tags.includes(search.tag)) return false;
+        if (search.starred !== undefined && generation.starred !== search.starred) return false;
+        if (search.after && compare(generation, search.after) <= 0) return false;
+
+        const haystack = `${generation.title || ""}\n${generation.prompt}\n${generation.files || ""}`.toLowerCase();
+        return terms.every((term) => haystack.includes(term));
+      })
+      .sort(compare)
+      .slice(0, search.limit);
   }
 
   async getGeneration(id: string): Promise<Generation | undefined> {
@@ -54,18 +149,346 @@ export class MemStorage implements IStorage {
     const generation: Generation = {
       ...insertGeneration,
       id,
+      title: insertGeneration.title || null,
+      tags: insertGeneration.tags || [],
+      starred: insertGeneration.starred ?? false,
       generatedCss: insertGeneration.generatedCss || null,
       generatedJs: insertGeneration.generatedJs || null,
       files: insertGeneration.files || "[]",
+      parentId: insertGeneration.parentId || null,
+      forkedFrom: insertGeneration.forkedFrom || null,
+      userId: insertGeneration.userId || null,
+      model: insertGeneration.model || null,
+      continuationRounds: insertGeneration.continuationRounds ?? 0,
+      promptTokens: insertGeneration.promptTokens ?? null,
+      completionTokens: insertGeneration.completionTokens ?? null,
+      latencyMs: insertGeneration.latencyMs ?? null,
+      costUsd: insertGeneration.costUsd ?? null,
+      diagnostics: insertGeneration.diagnostics ?? null,
+      repairAttempts: insertGeneration.repairAttempts ?? null,
       createdAt: new Date(),
     };
     this.generations.set(id, generation);
     return generation;
   }
 
+  async updateGenerationFiles(id: string, files: ProjectFile[], diagnostics: Diagnostic[]): Promise<Generation | undefined> {
+    const generation = this.generations.get(id);
+    if (!generation) return undefined;
+
+    const updated: Generation = { ...generation, files: JSON.stringify(files), diagnostics: JSON.stringify(diagnostics) };
+    this.generations.set(id, updated);
+    return updated;
+  }
+
+  async updateGenerationMetadata(id: string, changes: UpdateGenerationRequest): Promise<Generation | undefined> {
+    const generation = this.generations.get(id);
+    if (!generation) return undefined;
+
+    const updated: Generation = {
+      ...generation,
+      ...(changes.title !== undefined ? { title: changes.title } : {}),
+      ...(changes.tags !== undefined ? { tags: changes.tags } : {}),
+      ...(changes.starred !== undefined ? { starred: changes.starred } : {}),
+    };
+    this.generations.set(id, updated);
+    return updated;
+  }
+
   async deleteGeneration(id: string): Promise<boolean> {
+    for (const version of Array.from(this.versions.values())) {
+      if (version.generationId === id) this.versions.delete(version.id);
+    }
     return this.generations.delete(id);
   }
+
+  async getGenerationUsage(userId: string, since: Date): Promise<GenerationUsageRow[]> {
+    return Array.from(this.generations.values())
+      .filter((generation) => generation.userId === userId && generation.createdAt >= since)
+      .map(({ createdAt, model, promptTokens, completionTokens, latencyMs, costUsd, repairAttempts }) => ({
+        createdAt, model, promptTokens, completionTokens, latencyMs, costUsd, repairAttempts,
+      }));
+  }
+
+  async createGenerationVersion(insertVersion: InsertGenerationVersion): Promise<GenerationVersion> {
+    const version: GenerationVersion = {
+      ...insertVersion,
+      id: randomUUID(),
+      createdAt: new Date(),
+      sequence: ++this.versionSequence,
+    };
+    this.versions.set(version.id, version);
+    return version;
+  }
+
+  async getGenerationVersions(generationId: string): Promise<GenerationVersion[]> {
+    return Array.from(this.versions.values())
+      .filter((version) => version.generationId === generationId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.sequence - a.sequence);
+  }
+
+  async getLatestGenerationVersion(generationId: string): Promise<GenerationVersion | undefined> {
+    const [latest] = await this.getGenerationVersions(generationId);
+    return latest;
+  }
+
+  async getGenerationVersion(id: string): Promise<GenerationVersion | undefined> {
+    return this.versions.get(id);
+  }
+
+  async pruneGenerationVersions(generationId: string, keep: number, pinned: VersionSource[] = []): Promise<void> {
+    const versions = await this.getGenerationVersions(generationId);
+    for (const id of staleVersionIds(versions, keep, pinned)) {
+      this.versions.delete(id);
+    }
+  }
+
+  async recordRateLimitEvent(key: string, at: Date): Promise<void> {
+    const events = this.rateLimitEvents.get(key) || [];
+    events.push(at);
+    this.rateLimitEvents.set(key, events);
+  }
+
+  // No await between counting and recording, so this is atomic on the event loop
+  async recordRateLimitEventWithin(key: string, at: Date, windows: RateLimitWindow[]): Promise<boolean> {
+    const events = this.rateLimitEvents.get(key) || [];
+    if (windows.some(({ since, limit }) => events.filter((event) => event > since).length >= limit)) {
+      return false;
+    }
+    events.push(at);
+    this.rateLimitEvents.set(key, events);
+    return true;
+  }
+
+  async getRateLimitEvents(key: string, since: Date): Promise<Date[]> {
+    return (this.rateLimitEvents.get(key) || []).filter((at) => at >= since);
+  }
+
+  async pruneRateLimitEvents(key: string, before: Date): Promise<void> {
+    const events = (this.rateLimitEvents.get(key) || []).filter((at) => at >= before);
+    if (events.length > 0) {
+      this.rateLimitEvents.set(key, events);
+    } else {
+      this.rateLimitEvents.delete(key);
+    }
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(
+    private db: Database,
+    readonly sessionStore: session.Store = createMemorySessionStore(),
+  ) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, id: randomUUID() })
+      .returning();
+    return user;
+  }
+
+  async searchGenerations(search: GenerationSearch): Promise<Generation[]> {
+    // Postgres keeps microseconds but cursors carry JS milliseconds, so sort and page on the truncated time
+    const createdAt = sql`date_trunc('milliseconds', ${generations.createdAt})`;
+    const beyond = search.sort === "oldest" ? gt : lt;
+    const order = search.sort === "oldest" ? asc : desc;
+
+    const conditions: (SQL | undefined)[] = [eq(generations.userId, search.userId)];
+    for (const term of searchTerms(search.text)) {
+      const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(generations.title, pattern),
+        ilike(generations.prompt, pattern),
+        ilike(generations.files, pattern),
+      ));
+    }
+    if (search.from) conditions.push(gte(generations.createdAt, search.from));
+    if (search.to) conditions.push(lte(generations.createdAt, search.to));
+    if (search.tag) conditions.push(arrayContains(generations.tags, [search.tag]));
+    if (search.starred !== undefined) conditions.push(eq(generations.starred, search.starred));
+    if (search.after) {
+      const afterCreatedAt = sql`${search.after.createdAt.toISOString()}::timestamp`;
+      conditions.push(or(
+        beyond(createdAt, afterCreatedAt),
+        and(eq(createdAt, afterCreatedAt), beyond(generations.id, search.after.id)),
+      ));
+    }
+
+    return this.db
+      .select()
+      .from(generations)
+      .where(and(...conditions))
+      .orderBy(order(createdAt), order(generations.id))
+      .limit(search.limit);
+  }
+
+  async getGeneration(id: string): Promise<Generation | undefined> {
+    const [generation] = await this.db.select().from(generations).where(eq(generations.id, id));
+    return generation;
+  }
+
+  async createGeneration(insertGeneration: InsertGeneration): Promise<Generation> {
+    const [generation] = await this.db
+      .insert(generations)
+      .values({
+        ...insertGeneration,
+        id: randomUUID(),
+        generatedCss: insertGeneration.generatedCss || null,
+        generatedJs: insertGeneration.generatedJs || null,
+        files: insertGeneration.files || "[]",
+        parentId: insertGeneration.parentId || null,
+        forkedFrom: insertGeneration.forkedFrom || null,
+        userId: insertGeneration.userId || null,
+        model: insertGeneration.model || null,
+      })
+      .returning();
+    return generation;
+  }
+
+  async updateGenerationFiles(id: string, files: ProjectFile[], diagnostics: Diagnostic[]): Promise<Generation | undefined> {
+    const [generation] = await this.db
+      .update(generations)
+      .set({ files: JSON.stringify(files), diagnostics: JSON.stringify(diagnostics) })
+      .where(eq(generations.id, id))
+      .returning();
+    return generation;
+  }
+
+  async updateGenerationMetadata(id: string, changes: UpdateGenerationRequest): Promise<Generation | undefined> {
+    const [generation] = await this.db
+      .update(generations)
+      .set(changes)
+      .where(eq(generations.id, id))
+      .returning();
+    return generation;
+  }
+
+  async deleteGeneration(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(generations)
+      .where(eq(generations.id, id))
+      .returning({ id: generations.id });
+    return deleted.length > 0;
+  }
+
+  async getGenerationUsage(userId: string, since: Date): Promise<GenerationUsageRow[]> {
+    return this.db
+      .select({
+        createdAt: generations.createdAt,
+        model: generations.model,
+        promptTokens: generations.promptTokens,
+        completionTokens: generations.completionTokens,
+        latencyMs: generations.latencyMs,
+        costUsd: generations.costUsd,
+        repairAttempts: generations.repairAttempts,
+      })
+      .from(generations)
+      .where(and(eq(generations.userId, userId), gte(generations.createdAt, since)));
+  }
+
+  async createGenerationVersion(insertVersion: InsertGenerationVersion): Promise<GenerationVersion> {
+    const [version] = await this.db
+      .insert(generationVersions)
+      .values({ ...insertVersion, id: randomUUID() })
+      .returning();
+    return version;
+  }
+
+  async getGenerationVersions(generationId: string): Promise<GenerationVersion[]> {
+    return this.db
+      .select()
+      .from(generationVersions)
+      .where(eq(generationVersions.generationId, generationId))
+      .orderBy(desc(generationVersions.createdAt), desc(generationVersions.sequence));
+  }
+
+  async getLatestGenerationVersion(generationId: string): Promise<GenerationVersion | undefined> {
+    const [latest] = await this.db
+      .select()
+      .from(generationVersions)
+      .where(eq(generationVersions.generationId, generationId))
+      .orderBy(desc(generationVersions.createdAt), desc(generationVersions.sequence))
+      .limit(1);
+    return latest;
+  }
+
+  async getGenerationVersion(id: string): Promise<GenerationVersion | undefined> {
+    const [version] = await this.db.select().from(generationVersions).where(eq(generationVersions.id, id));
+    return version;
+  }
+
+  async pruneGenerationVersions(generationId: string, keep: number, pinned: VersionSource[] = []): Promise<void> {
+    const versions = await this.db
+      .select({ id: generationVersions.id, source: generationVersions.source })
+      .from(generationVersions)
+      .where(eq(generationVersions.generationId, generationId))
+      .orderBy(desc(generationVersions.createdAt), desc(generationVersions.sequence));
+    const stale = staleVersionIds(versions, keep, pinned);
+    if (stale.length === 0) return;
+
+    await this.db
+      .delete(generationVersions)
+      .where(inArray(generationVersions.id, stale));
+  }
+
+  async recordRateLimitEvent(key: string, at: Date): Promise<void> {
+    await this.db.insert(rateLimitEvents).values({ key, createdAt: at });
+  }
+
+  async recordRateLimitEventWithin(key: string, at: Date, windows: RateLimitWindow[]): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Holds off other requests for the same key until this transaction ends
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`);
+
+      for (const { since, limit } of windows) {
+        const [{ count }] = await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(rateLimitEvents)
+          .where(and(eq(rateLimitEvents.key, key), gt(rateLimitEvents.createdAt, since)));
+        if (count >= limit) return false;
+      }
+
+      await tx.insert(rateLimitEvents).values({ key, createdAt: at });
+      return true;
+    });
+  }
+
+  async getRateLimitEvents(key: string, since: Date): Promise<Date[]> {
+    const rows = await this.db
+      .select({ createdAt: rateLimitEvents.createdAt })
+      .from(rateLimitEvents)
+      .where(and(eq(rateLimitEvents.key, key), gte(rateLimitEvents.createdAt, since)))
+      .orderBy(asc(rateLimitEvents.createdAt));
+    return rows.map((row) => row.createdAt);
+  }
+
+  async pruneRateLimitEvents(key: string, before: Date): Promise<void> {
+    await this.db
+      .delete(rateLimitEvents)
+      .where(and(eq(rateLimitEvents.key, key), lt(rateLimitEvents.createdAt, before)));
+  }
+}
+
+function createDbStorage(connectionString: string): DbStorage {
+  const pool = createPool(connectionString);
+  return new DbStorage(
+    createDb(pool),
+    new PostgresSessionStore({ pool, createTableIfMissing: true }),
+  );
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise fall back to memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? createDbStorage(process.env.DATABASE_URL)
+  : new MemStorage();
@@ -0,0 +1,42 @@
+import type { StylePreset } from "@shared/schema";
+
+type StylePresetDefinition = StylePreset & {
+  // Appended to the system prompt's rules
+  instructions: string;
+};
+
+const STYLE_PRESETS: StylePresetDefinition[] = [
+  {
+    id: "minimal",
+    label: "Minimal",
+    instructions: "Minimal design: generous whitespace, neutral palette with a single accent color, simple sans-serif type, no decorative effects.",
+  },
+  {
+    id: "corporate",
+    label: "Corporate",
+    instructions: "Corporate design: structured sections, navy/slate palette, clear calls to action, testimonials or trust signals where relevant.",
+  },
+  {
+    id: "playful",
+    label: "Playful",
+    instructions: "Playful design: bright saturated colors, rounded shapes, friendly rounded type, light hover and entrance animations.",
+  },
+  {
+    id: "dark",
+    label: "Dark",
+    instructions: "Dark design: near-black background, high-contrast light text, one vivid accent color, subtle glass-style cards.",
+  },
+  {
+    id: "editorial",
+    label: "Editorial",
+    instructions: "Editorial design: magazine-style layout, serif headings, strong typographic hierarchy, wide image placeholders.",
+  },
+];
+
+export function listStylePresets(): StylePreset[] {
+  return STYLE_PRESETS.map(({ id, label }) => ({ id, label }));
+}
+
+export function getStylePreset(id: string): StylePresetDefinition | undefined {
+  return STYLE_PRESETS.find(preset => preset.id === id);
+}
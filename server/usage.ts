@@ -0,0 +1,121 @@
+import type { GenerationUsageRow, RepairAttempt, RepairSummary, UsageBucket, UsageSummary } from "@shared/schema";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // USD, when the provider reports it (OpenRouter usage accounting)
+  cost?: number;
+}
+
+// Read an OpenAI-style `usage` block
+export function parseUsage(raw: any): TokenUsage | undefined {
+  if (!raw || typeof raw.prompt_tokens !== "number") return undefined;
+  return {
+    promptTokens: raw.prompt_tokens,
+    completionTokens: raw.completion_tokens ?? 0,
+    ...(typeof raw.cost === "number" ? { cost: raw.cost } : {}),
+  };
+}
+
+// Sum usage across continuation rounds; cost is only known if every part reported it
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    ...(a.cost !== undefined && b.cost !== undefined ? { cost: a.cost + b.cost } : {}),
+  };
+}
+
+// USD per million [prompt, completion] tokens
+type Price = [number, number];
+
+const DEFAULT_PRICES: Record<string, Price> = {
+  "google/gemini-2.5-flash": [0.3, 2.5],
+};
+
+// LLM_PRICES='{"vendor/model": [promptPerMillion, completionPerMillion]}' adds or overrides prices
+export function pricesFromEnv(env: NodeJS.ProcessEnv = process.env): Record<string, Price> {
+  if (!env.LLM_PRICES) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(env.LLM_PRICES) };
+  } catch (error) {
+    console.warn("Ignoring LLM_PRICES: not valid JSON");
+    return DEFAULT_PRICES;
+  }
+}
+
+// The provider's reported cost, else an estimate from the price table; null for unpriced models
+export function estimateCost(model: string, usage: TokenUsage, prices = pricesFromEnv()): number | null {
+  if (usage.cost !== undefined) return usage.cost;
+  if (model.endsWith(":free")) return 0;
+
+  const price = prices[model];
+  if (!price) return null;
+  return (usage.promptTokens * price[0] + usage.completionTokens * price[1]) / 1_000_000;
+}
+
+function emptyBucket(key: string): UsageBucket {
+  return { key, generations: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, averageLatencyMs: null };
+}
+
+function addToBucket(bucket: UsageBucket, row: GenerationUsageRow, latencies: number[]) {
+  bucket.generations++;
+  bucket.promptTokens += row.promptTokens ?? 0;
+  bucket.completionTokens += row.completionTokens ?? 0;
+  bucket.costUsd += row.costUsd ?? 0;
+  if (row.latencyMs !== null) latencies.push(row.latencyMs);
+}
+
+function addRepairs(summary: RepairSummary, row: GenerationUsageRow) {
+  let attempts: RepairAttempt[];
+  try {
+    attempts = JSON.parse(row.repairAttempts || "[]");
+  } catch (error) {
+    return;
+  }
+  if (attempts.length === 0) return;
+
+  summary.attempted++;
+  const kept = attempts.filter((attempt) => attempt.kept);
+  if (kept.length > 0) summary.improved++;
+  if (kept[kept.length - 1]?.errorsAfter === 0) summary.fixed++;
+}
+
+// Totals plus per-day (UTC) and per-model breakdowns of a user's generations
+export function summarizeUsage(rows: GenerationUsageRow[], since: Date): UsageSummary {
+  const buckets = new Map<string, { bucket: UsageBucket; latencies: number[] }>();
+  const bucketFor = (key: string) => {
+    if (!buckets.has(key)) buckets.set(key, { bucket: emptyBucket(key), latencies: [] });
+    return buckets.get(key)!;
+  };
+
+  const totals = bucketFor("total");
+  const repairs: RepairSummary = { attempted: 0, improved: 0, fixed: 0 };
+  for (const row of rows) {
+    addRepairs(repairs, row);
+    const day = bucketFor(`day:${new Date(row.createdAt).toISOString().slice(0, 10)}`);
+    const model = bucketFor(`model:${row.model || "unknown"}`);
+    for (const entry of [totals, day, model]) {
+      addToBucket(entry.bucket, row, entry.latencies);
+    }
+  }
+
+  const finish = ({ bucket, latencies }: { bucket: UsageBucket; latencies: number[] }) => ({
+    ...bucket,
+    key: bucket.key.replace(/^(day|model):/, ""),
+    averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+  });
+  const grouped = (prefix: string) =>
+    Array.from(buckets.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, entry]) => finish(entry));
+
+  return {
+    since,
+    totals: finish(totals),
+    repairs,
+    byDay: grouped("day:").sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: grouped("model:").sort((a, b) => b.costUsd - a.costUsd || b.generations - a.generations),
+  };
+}
@@ -0,0 +1,380 @@
+import path from "path";
+import { Tokenizer, TokenizerMode, type Token } from "parse5";
+import postcss, { CssSyntaxError } from "postcss";
+import { parse as parseJs } from "acorn";
+import type { Diagnostic, ProjectFile } from "@shared/schema";
+
+// Keeps a badly broken file from producing a huge report
+const MAX_DIAGNOSTICS_PER_FILE = 50;
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Elements whose end tag may be left out; the browser closes them on its own
+const OPTIONAL_END_TAG = new Set([
+  "html", "head", "body", "p", "li", "dt", "dd", "option", "optgroup", "tr", "td", "th",
+  "thead", "tbody", "tfoot", "colgroup", "caption", "rt", "rp",
+]);
+
+// Opening one of these while a <p> is open closes the paragraph first
+const CLOSES_PARAGRAPH = new Set([
+  "address", "article", "aside", "blockquote", "details", "dialog", "div", "dl", "fieldset", "figcaption",
+  "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hgroup", "hr", "main", "menu",
+  "nav", "ol", "p", "pre", "section", "table", "ul",
+]);
+
+// Start tags that implicitly close an open sibling of the listed kinds
+const CLOSES_SIBLING: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  option: ["option"],
+  optgroup: ["optgroup", "option"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  thead: ["tbody", "tfoot", "tr", "td", "th"],
+  tbody: ["thead", "tfoot", "tr", "td", "th"],
+  tfoot: ["thead", "tbody", "tr", "td", "th"],
+};
+
+// Interactive content can't contain more interactive content
+const NO_NESTING = new Set(["a", "button", "form", "label"]);
+
+const RAW_TEXT_MODES: Record<string, (typeof TokenizerMode)[keyof typeof TokenizerMode]> = {
+  script: TokenizerMode.SCRIPT_DATA,
+  style: TokenizerMode.RAWTEXT,
+  xmp: TokenizerMode.RAWTEXT,
+  iframe: TokenizerMode.RAWTEXT,
+  noembed: TokenizerMode.RAWTEXT,
+  noframes: TokenizerMode.RAWTEXT,
+  textarea: TokenizerMode.RCDATA,
+  title: TokenizerMode.RCDATA,
+  plaintext: TokenizerMode.PLAINTEXT,
+};
+
+// Attributes holding a URL that the page loads or links to
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href"],
+  area: ["href"],
+  link: ["href"],
+  script: ["src"],
+  img: ["src"],
+  iframe: ["src"],
+  source: ["src"],
+  audio: ["src"],
+  video: ["src", "poster"],
+  embed: ["src"],
+  track: ["src"],
+};
+
+const EXTERNAL_URL = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+const CSS_URL = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+const JS_SCRIPT_TYPES = new Set(["", "text/javascript", "application/javascript", "module"]);
+
+type OpenElement = { name: string; line: number; column: number; foreign: boolean };
+
+type Position = { line: number; column: number; endLine?: number; endColumn?: number };
+
+function at(location: Token.Location | null): Position {
+  return location
+    ? { line: location.startLine, column: location.startCol, endLine: location.endLine, endColumn: location.endCol }
+    : { line: 1, column: 1 };
+}
+
+// Shift a position found in an embedded block (inline <script>/<style>) to where the block starts in the page
+function offsetBy(position: Position, start: { line: number; column: number }): Position {
+  const shift = (line: number, column: number) => ({
+    line: line + start.line - 1,
+    column: line === 1 ? column + start.column - 1 : column,
+  });
+  const begin = shift(position.line, position.column);
+  const end = position.endLine !== undefined ? shift(position.endLine, position.endColumn ?? 1) : undefined;
+  return { ...begin, endLine: end?.line, endColumn: end?.column };
+}
+
+function jsSyntaxError(code: string, sourceType: "script" | "module"): (Position & { message: string }) | undefined {
+  try {
+    parseJs(code, { ecmaVersion: "latest", sourceType, locations: true });
+    return undefined;
+  } catch (error: any) {
+    if (!error?.loc) throw error;
+    // acorn appends "(line:column)" to its messages; the position is reported separately
+    const message = String(error.message).replace(/\s*\(\d+:\d+\)$/, "");
+    return { line: error.loc.line, column: error.loc.column + 1, message };
+  }
+}
+
+function cssSyntaxError(code: string): (Position & { message: string }) | undefined {
+  try {
+    postcss.parse(code);
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof CssSyntaxError)) throw error;
+    return {
+      line: error.line ?? 1,
+      column: error.column ?? 1,
+      endLine: error.endLine,
+      endColumn: error.endColumn,
+      message: error.reason,
+    };
+  }
+}
+
+/**
+ * Resolve a URL found in a file against the project. Returns null for
+ * references that aren't ours to check (other sites, data: URLs, in-page
+ * anchors, template placeholders), otherwise whether the target exists.
+ */
+function resolveReference(from: string, url: string, paths: Set<string>): { target: string; exists: boolean } | null {
+  const trimmed = url.trim();
+  if (!trimmed || trimmed.startsWith("#") || EXTERNAL_URL.test(trimmed) || /[{}$]/.test(trimmed)) {
+    return null;
+  }
+
+  let target = trimmed.replace(/[?#].*$/, "");
+  try {
+    target = decodeURI(target);
+  } catch (e) {
+    // Keep the raw path
+  }
+  if (!target) return null;
+
+  const base = target.startsWith("/") ? "" : path.posix.dirname(from);
+  const resolved = path.posix.normalize(path.posix.join(base, target)).replace(/^(\.\/|\/)+/, "");
+  if (resolved.startsWith("..")) {
+    return { target: resolved, exists: false };
+  }
+
+  // Static hosts serve "about/" as about/index.html, and many also map "about" to about.html
+  const candidates = target.endsWith("/") || resolved === "."
+    ? [path.posix.join(resolved, "index.html")]
+    : [resolved, `${resolved}.html`, path.posix.join(resolved, "index.html")];
+  return { target: resolved, exists: candidates.some((candidate) => paths.has(candidate)) };
+}
+
+// Only files the project could contain are errors; a missing image is worth a warning
+function brokenReference(file: string, url: string, target: string, position: Position): Diagnostic {
+  const isProjectType = /\.(html?|css|js)$/i.test(target) || !path.posix.extname(target);
+  return {
+    file,
+    rule: "broken-link",
+    severity: isProjectType ? "error" : "warning",
+    message: `"${url}" points to ${target}, which is not in the project`,
+    ...position,
+  };
+}
+
+function validateCss(file: ProjectFile, paths: Set<string>, start = { line: 1, column: 1 }): Diagnostic[] {
+  const error = cssSyntaxError(file.content);
+  if (error) {
+    const { message, ...position } = error;
+    return [{ file: file.name, rule: "css-syntax", severity: "error", message, ...offsetBy(position, start) }];
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  postcss.parse(file.content).walkDecls((decl) => {
+    for (const match of Array.from(decl.value.matchAll(CSS_URL))) {
+      const reference = resolveReference(file.name, match[2], paths);
+      if (reference && !reference.exists) {
+        const position = { line: decl.source?.start?.line ?? 1, column: decl.source?.start?.column ?? 1 };
+        diagnostics.push(brokenReference(file.name, match[2], reference.target, offsetBy(position, start)));
+      }
+    }
+  });
+  return diagnostics;
+}
+
+function validateJs(file: ProjectFile, sourceType: "script" | "module" = "script", start = { line: 1, column: 1 }): Diagnostic[] {
+  const error = jsSyntaxError(file.content, sourceType);
+  if (!error) return [];
+  const { message, ...position } = error;
+  return [{ file: file.name, rule: "js-syntax", severity: "error", message, ...offsetBy(position, start) }];
+}
+
+/**
+ * Walk the page's tags the way they appear in the source, rather than the
+ * tree a browser would repair them into, so misnested and unclosed tags are
+ * reported where they were written.
+ */
+function validateHtml(file: ProjectFile, paths: Set<string>): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (rule: Diagnostic["rule"], severity: Diagnostic["severity"], message: string, position: Position) => {
+    diagnostics.push({ file: file.name, rule, severity, message, ...position });
+  };
+
+  const open: OpenElement[] = [];
+  const inForeignContent = () => open.some((element) => element.foreign);
+  // Elements already reported as closed early; their end tags would otherwise be reported again as stray
+  const closedEarly: string[] = [];
+  // Start of the <script> or <style> whose text is being read
+  let embedded: { name: string; type: string; contentStart: number; line: number; column: number } | undefined;
+
+  const tokenizer = new Tokenizer({ sourceCodeLocationInfo: true }, {
+    onStartTag(token) {
+      const name = token.tagName;
+      const position = at(token.location);
+      const attr = (attrName: string) => token.attrs.find((a) => a.name === attrName)?.value;
+
+      for (const attrName of URL_ATTRIBUTES[name] ?? []) {
+        const url = attr(attrName);
+        const reference = url === undefined ? null : resolveReference(file.name, url, paths);
+        if (reference && !reference.exists) {
+          const location = token.location?.attrs?.[attrName] ?? token.location;
+          diagnostics.push(brokenReference(file.name, url!, reference.target, at(location)));
+        }
+      }
+
+      // SVG and MathML follow XML rules: self-closing tags are fine and HTML nesting rules don't apply
+      if (inForeignContent() || name === "svg" || name === "math") {
+        if (!token.selfClosing) {
+          open.push({ name, line: position.line, column: position.column, foreign: true });
+        }
+        tokenizer.inForeignNode = inForeignContent();
+        return;
+      }
+
+      if (name in CLOSES_SIBLING) {
+        const top = open[open.length - 1];
+        if (top && CLOSES_SIBLING[name].includes(top.name)) open.pop();
+      }
+      if (CLOSES_PARAGRAPH.has(name) && open[open.length - 1]?.name === "p") {
+        const paragraph = open.pop()!;
+        if (name !== "p") {
+          closedEarly.push("p");
+          report("html-nesting", "error", `<${name}> can't be inside <p> (line ${paragraph.line}); the browser ends the paragraph before it`, position);
+        }
+      }
+      if (NO_NESTING.has(name)) {
+        const outer = open.find((element) => element.name === name || (name === "button" && element.name === "a") || (name === "a" && element.name === "button"));
+        if (outer) {
+          report("html-nesting", "error", `<${name}> can't be nested inside <${outer.name}> (line ${outer.line})`, position);
+        }
+      }
+
+      if (VOID_ELEMENTS.has(name)) return;
+      if (token.selfClosing) {
+        report("html-nesting", "error", `<${name}/> isn't self-closing in HTML; write <${name}></${name}>`, position);
+        return;
+      }
+
+      open.push({ name, line: position.line, column: position.column, foreign: false });
+      if (name in RAW_TEXT_MODES) {
+        tokenizer.state = RAW_TEXT_MODES[name];
+        if ((name === "script" && attr("src") === undefined) || name === "style") {
+          embedded = {
+            name,
+            type: (attr("type") ?? "").trim().toLowerCase(),
+            contentStart: token.location?.endOffset ?? 0,
+            line: token.location?.endLine ?? 1,
+            column: token.location?.endCol ?? 1,
+          };
+        }
+      }
+    },
+
+    onEndTag(token) {
+      const name = token.tagName;
+      const position = at(token.location);
+
+      if (embedded?.name === name && token.location) {
+        const content = file.content.slice(embedded.contentStart, token.location.startOffset);
+        const start = { line: embedded.line, column: embedded.column };
+        if (embedded.name === "style") {
+          diagnostics.push(...validateCss({ name: file.name, type: "css", content }, paths, start));
+        } else if (JS_SCRIPT_TYPES.has(embedded.type)) {
+          const sourceType = embedded.type === "module" ? "module" : "script";
+          diagnostics.push(...validateJs({ name: file.name, type: "js", content }, sourceType, start));
+        }
+        embedded = undefined;
+      }
+
+      if (VOID_ELEMENTS.has(name)) {
+        report("html-nesting", "warning", `</${name}> isn't needed: <${name}> has no closing tag`, position);
+        return;
+      }
+
+      const index = open.map((element) => element.name).lastIndexOf(name);
+      if (index === -1) {
+        const early = closedEarly.indexOf(name);
+        if (early !== -1) closedEarly.splice(early, 1);
+        else report("html-nesting", "error", `</${name}> has no matching <${name}>`, position);
+        return;
+      }
+
+      for (const element of open.slice(index + 1)) {
+        if (!OPTIONAL_END_TAG.has(element.name)) {
+          closedEarly.push(element.name);
+          report(
+            "html-nesting",
+            "error",
+            `</${name}> closes <${name}> (line ${open[index].line}) while <${element.name}> (line ${element.line}) is still open`,
+            position,
+          );
+        }
+      }
+      open.splice(index);
+      tokenizer.inForeignNode = inForeignContent();
+    },
+
+    onEof() {
+      for (const element of open) {
+        if (!OPTIONAL_END_TAG.has(element.name)) {
+          report("html-nesting", "error", `<${element.name}> is never closed`, { line: element.line, column: element.column });
+        }
+      }
+    },
+
+    onParseError(error) {
+      const message = error.code.charAt(0).toUpperCase() + error.code.slice(1).replace(/-/g, " ");
+      report("html-syntax", "warning", message, {
+        line: error.startLine,
+        column: error.startCol,
+        endLine: error.endLine,
+        endColumn: error.endCol,
+      });
+    },
+
+    onComment() {},
+    onDoctype() {},
+    onCharacter() {},
+    onNullCharacter() {},
+    onWhitespaceCharacter() {},
+  });
+
+  tokenizer.write(file.content, true);
+  return diagnostics;
+}
+
+function byPosition(a: Diagnostic, b: Diagnostic): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Check every file of a project: HTML nesting, CSS and JS syntax (including
+ * inline <style> and <script> blocks) and links or asset references that
+ * point at files the project doesn't have. Each file's diagnostics are
+ * sorted by position.
+ */
+export function validateProject(files: ProjectFile[]): Diagnostic[] {
+  const paths = new Set(files.map((f) => f.name));
+
+  return files.flatMap((file) => {
+    let diagnostics: Diagnostic[];
+    switch (file.type) {
+      case "html":
+        diagnostics = validateHtml(file, paths);
+        break;
+      case "css":
+        diagnostics = validateCss(file, paths);
+        break;
+      case "js":
+        diagnostics = validateJs(file);
+        break;
+      default:
+        diagnostics = [];
+    }
+    return diagnostics.sort(byPosition).slice(0, MAX_DIAGNOSTICS_PER_FILE);
+  });
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, serial, integer, doublePrecision, boolean, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,23 +16,125 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API exposes about a user (never the password hash)
+export type PublicUser = Pick<User, "id" | "username">;
+
+export const registerRequestSchema = z.object({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, '.', '_' and '-'"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export type RegisterRequest = z.infer<typeof registerRequestSchema>;
 
 export const generations = pgTable("generations", {
   id: varchar("id", { length: 36 }).primaryKey(),
   prompt: text("prompt").notNull(),
+  title: text("title"), // User-chosen name; the UI falls back to the prompt
+  tags: text("tags").array().default(sql`'{}'::text[]`).notNull(),
+  starred: boolean("starred").default(false).notNull(),
   generatedHtml: text("generated_html").notNull(),
   generatedCss: text("generated_css"),
   generatedJs: text("generated_js"),
   files: text("files").default("[]"), // Stored as JSON string
+  parentId: varchar("parent_id", { length: 36 }), // Generation this one was refined from
+  forkedFrom: varchar("forked_from", { length: 36 }), // Generation this one was duplicated from
+  userId: varchar("user_id", { length: 36 }).references(() => users.id, { onDelete: "cascade" }),
+  continuationRounds: integer("continuation_rounds").default(0).notNull(), // Follow-up requests needed after truncated output
+  model: text("model"), // Model that produced the files, after any fallbacks
+  // Usage of the successful model, summed over continuation rounds; null when unknown
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  latencyMs: integer("latency_ms"),
+  costUsd: doublePrecision("cost_usd"), // Reported by the provider or estimated from LLM_PRICES
+  diagnostics: text("diagnostics"), // Diagnostic[] as JSON string for the current files; null until validated
+  repairAttempts: text("repair_attempts"), // RepairAttempt[] as JSON string; null for generations older than self-repair
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// How a version's files came about
+export type VersionSource = 'generate' | 'refine' | 'fork' | 'save' | 'restore';
+
+// Snapshot of a generation's files, taken whenever they are created or saved
+export const generationVersions = pgTable("generation_versions", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  generationId: varchar("generation_id", { length: 36 }).notNull().references(() => generations.id, { onDelete: "cascade" }),
+  files: text("files").notNull(), // ProjectFile[] as JSON string, like generations.files
+  source: text("source").$type<VersionSource>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Orders versions created in the same instant
+  sequence: serial("sequence").notNull(),
+}, (table) => [
+  index("generation_versions_generation_id_created_at_idx").on(table.generationId, table.createdAt),
+]);
+
+// One row per rate-limited API call, keyed by "user:<id>" or "ip:<address>"
+export const rateLimitEvents = pgTable("rate_limit_events", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("rate_limit_events_key_created_at_idx").on(table.key, table.createdAt),
+]);
+
+export type QuotaWindow = {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetInSeconds: number;
+};
+
+export type Quota = {
+  minute: QuotaWindow;
+  day: QuotaWindow;
+};
+
 export type ProjectFile = {
   name: string;
   type: 'html' | 'css' | 'js';
   content: string;
 };
 
+export type DiagnosticRule = 'html-nesting' | 'html-syntax' | 'css-syntax' | 'js-syntax' | 'broken-link';
+
+// A problem found in a project file by the server-side validation pass
+export type Diagnostic = {
+  file: string;
+  rule: DiagnosticRule;
+  severity: 'error' | 'warning';
+  message: string;
+  // 1-based, like editors show them; the end is omitted for point diagnostics
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+};
+
+// One fix-up request sent because the model's files failed validation
+export type RepairAttempt = {
+  // Errors in the files sent to the model, and in the files it sent back (null when the request failed)
+  errorsBefore: number;
+  errorsAfter: number | null;
+  // The reply replaces the files only when it has fewer errors
+  kept: boolean;
+  latencyMs: number;
+  error?: string;
+};
+
+export const projectFileSchema = z.object({
+  name: z.string().min(1, "File name is required"),
+  type: z.enum(['html', 'css', 'js']),
+  content: z.string(),
+});
+
+export const updateFilesRequestSchema = z.object({
+  files: z.array(projectFileSchema),
+});
+
+export type UpdateFilesRequest = z.infer<typeof updateFilesRequestSchema>;
+
 export const insertGenerationSchema = createInsertSchema(generations).omit({
   id: true,
   createdAt: true,
@@ -40,8 +143,139 @@ export const insertGenerationSchema = createInsertSchema(generations).omit({
 export type InsertGeneration = z.infer<typeof insertGenerationSchema>;
 export type Generation = typeof generations.$inferSelect;
 
+export const TAG_LIMITS = { count: 10, length: 32 };
+
+// Body of PATCH /api/generations/:id; an empty title clears it
+export const updateGenerationRequestSchema = z.object({
+  title: z.string().trim().max(120, "Title must be at most 120 characters").transform(title => title || null).nullable().optional(),
+  tags: z.array(
+    z.string().trim().toLowerCase()
+      .min(1, "Tags can't be empty")
+      .max(TAG_LIMITS.length, `Tags must be at most ${TAG_LIMITS.length} characters`)
+  )
+    .max(TAG_LIMITS.count, `At most ${TAG_LIMITS.count} tags`)
+    .transform(tags => Array.from(new Set(tags)))
+    .optional(),
+  starred: z.boolean().optional(),
+}).refine(body => Object.values(body).some(value => value !== undefined), "Nothing to update");
+
+export type UpdateGenerationRequest = z.infer<typeof updateGenerationRequestSchema>;
+
+export const GENERATION_PAGE_SIZE = { default: 20, max: 100 };
+
+// Query string of GET /api/generations; `cursor` is the `nextCursor` of the previous page
+export const generationQuerySchema = z.object({
+  q: z.string().trim().max(200, "Search must be at most 200 characters").optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(['newest', 'oldest']).default('newest'),
+  tag: z.string().trim().toLowerCase().optional(),
+  starred: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(GENERATION_PAGE_SIZE.max).default(GENERATION_PAGE_SIZE.default),
+});
+
+export type GenerationQuery = z.infer<typeof generationQuerySchema>;
+
+export type GenerationPage = {
+  items: Generation[];
+  // Null on the last page
+  nextCursor: string | null;
+};
+
+export type GenerationVersion = typeof generationVersions.$inferSelect;
+export type InsertGenerationVersion = Omit<GenerationVersion, 'id' | 'createdAt' | 'sequence'>;
+
+export type GenerationUsageRow = Pick<
+  Generation,
+  'createdAt' | 'model' | 'promptTokens' | 'completionTokens' | 'latencyMs' | 'costUsd' | 'repairAttempts'
+>;
+
+export type UsageBucket = {
+  // Day (YYYY-MM-DD, UTC) or model name; "total" for the overall bucket
+  key: string;
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  averageLatencyMs: number | null;
+};
+
+// How often self-repair ran and helped
+export type RepairSummary = {
+  // Generations that needed at least one repair attempt
+  attempted: number;
+  // ...where a repair was kept, and where the kept files had no errors left
+  improved: number;
+  fixed: number;
+};
+
+export type UsageSummary = {
+  since: Date;
+  totals: UsageBucket;
+  repairs: RepairSummary;
+  byDay: UsageBucket[];
+  byModel: UsageBucket[];
+};
+
+// Sampling temperature accepted by every provider we support
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
 export const generateRequestSchema = z.object({
   prompt: z.string().min(10, "Please describe your website in at least 10 characters"),
+  // Tried first; the rest of the server's model chain remains as fallback
+  model: z.string().optional(),
+  temperature: z.number().min(TEMPERATURE_RANGE.min).max(TEMPERATURE_RANGE.max).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  // Id of one of the style presets listed by GET /api/models
+  stylePreset: z.string().optional(),
 });
 
 export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+
+export const refineRequestSchema = z.object({
+  instruction: z.string().min(3, "Please describe the change in at least 3 characters"),
+});
+
+export type RefineRequest = z.infer<typeof refineRequestSchema>;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A generation submitted through /api/jobs; lives in server memory only
+export type GenerationJob = {
+  id: string;
+  userId: string;
+  request: GenerateRequest;
+  status: JobStatus;
+  // Jobs ahead of this one while queued
+  position: number;
+  progress: {
+    chars: number;
+    files: { name: string; content: string }[];
+    continuationRounds: number;
+    // Fix-up round in progress after validation found errors; 0 until then
+    repairRound: number;
+    // Model currently being tried
+    model?: string;
+  };
+  generation?: Generation;
+  error?: { error: string; code: string };
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+};
+
+export type StylePreset = {
+  id: string;
+  label: string;
+};
+
+// Everything a generate request may choose from, published by GET /api/models
+export type ModelsResponse = {
+  // Fallback order used when no model is chosen
+  models: string[];
+  default: string;
+  stylePresets: StylePreset[];
+  temperature: { min: number; max: number };
+  maxTokens: { min: number; max: number; default: number };
+};